@@ -1,24 +1,36 @@
 const webpack = require("webpack");
 
-module.exports = function override(config, env) {
-  config.resolve.fallback = {
-    crypto: require.resolve("crypto-browserify"),
-    stream: require.resolve("stream-browserify"),
-    assert: require.resolve("assert"),
-    http: require.resolve("stream-http"),
-    https: require.resolve("https-browserify"),
-    os: require.resolve("os-browserify/browser"),
-    buffer: require.resolve("buffer"),
-    path: require.resolve("path-browserify"),
-    vm: require.resolve("vm-browserify"),
-  };
+module.exports = {
+  webpack: function override(config, env) {
+    config.resolve.fallback = {
+      crypto: require.resolve("crypto-browserify"),
+      stream: require.resolve("stream-browserify"),
+      assert: require.resolve("assert"),
+      http: require.resolve("stream-http"),
+      https: require.resolve("https-browserify"),
+      os: require.resolve("os-browserify/browser"),
+      buffer: require.resolve("buffer"),
+      path: require.resolve("path-browserify"),
+      vm: require.resolve("vm-browserify"),
+    };
 
-  config.plugins.push(
-    new webpack.ProvidePlugin({
-      process: "process/browser",
-      Buffer: ["buffer", "Buffer"],
-    })
-  );
+    config.plugins.push(
+      new webpack.ProvidePlugin({
+        process: "process/browser",
+        Buffer: ["buffer", "Buffer"],
+      })
+    );
 
-  return config;
+    return config;
+  },
+
+  // The @noble packages are only published as ES modules, which jest does
+  // not load untransformed
+  jest: function override(config) {
+    config.transformIgnorePatterns = [
+      "[/\\\\]node_modules[/\\\\](?!@noble[/\\\\]).+\\.(js|jsx|mjs|cjs|ts|tsx)$",
+      "^.+\\.module\\.(css|sass|scss)$",
+    ];
+    return config;
+  },
 };
@@ -1,18 +1,21 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import "./App.css";
 import {
+  buildSolTransferTransaction,
+  buildSPLTransferTransaction,
+  getExpandedSecretKey,
   getPublicKey,
   getSolBalance,
   getSPLTokenBalances,
   getSPLTokenInfo,
-  signAndSendSolTransaction,
-  signAndSendSPLTransferTransaction,
+  signAndSendTransaction,
 } from "./libs/solana";
+import { previewTransaction, TransactionPreview } from "./libs/simulation";
+import { TransactionState, trackTransaction } from "./libs/confirmation";
+import { ComputeBudgetSettings } from "./libs/compute-budget";
 import {
   Box,
   Stack,
-  ToggleButton,
-  ToggleButtonGroup,
   createTheme,
   PaletteMode,
   ThemeProvider,
@@ -26,9 +29,85 @@ import {
   MenuItem,
   FormControl,
   InputLabel,
+  Avatar,
+  FormControlLabel,
+  Switch,
 } from "@mui/material";
-import { signAsync } from "./libs/ed25119-scalar";
-import * as bs58 from "bs58";
+import { parsePrivateKey } from "./libs/keys";
+import {
+  changeKeystorePassword,
+  createKeystore,
+  deleteKeystore,
+  EncryptedKeystore,
+  exportKeystoreBackup,
+  getKeystores,
+  parseKeystoreBackup,
+  saveKeystore,
+  unlockKeystores,
+} from "./libs/keystore";
+import AccountsPanel from "./components/AccountsPanel";
+import TransactionPreviewDialog, {
+  PendingTransaction,
+} from "./components/TransactionPreviewDialog";
+import TransactionProgress from "./components/TransactionProgress";
+import ComputeBudgetFields from "./components/ComputeBudgetFields";
+import OfflineSigningPanel from "./components/OfflineSigningPanel";
+import NoncePanel from "./components/NoncePanel";
+import SweepPanel from "./components/SweepPanel";
+import TokenAccountsPanel from "./components/TokenAccountsPanel";
+import ExternalSigningPanel from "./components/ExternalSigningPanel";
+import MessageSigningPanel from "./components/MessageSigningPanel";
+import SignInPanel from "./components/SignInPanel";
+import WalletStandardPanel from "./components/WalletStandardPanel";
+import HistoryPanel from "./components/HistoryPanel";
+import ClusterSelector from "./components/ClusterSelector";
+import {
+  Cluster,
+  CLUSTER_LABELS,
+  ClusterSettings,
+  getCluster,
+  getExplorerUrl,
+  loadClusterSettings,
+  saveClusterSettings,
+} from "./libs/cluster";
+
+// Token name, symbol and image shown in the token lists
+type TokenDisplayInfo = { name: string; symbol: string; image: string | null };
+
+// Minutes without user activity before the wallet locks itself
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 30];
+const DEFAULT_AUTO_LOCK_MINUTES = 5;
+const ACTIVITY_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "keydown",
+  "scroll",
+  "touchstart",
+];
+
+/*
+ * Looks up the name, symbol and, when includeImage is set, the image of the
+ * token, with placeholders when its metadata cannot be read. The image comes
+ * from an off-chain document chosen by the token's creator, so fetching it
+ * reveals the user's IP to whoever airdropped the token.
+ */
+async function getTokenDisplayInfo(
+  address: string,
+  cluster: Cluster,
+  includeImage: boolean
+): Promise<TokenDisplayInfo> {
+  try {
+    const info = await getSPLTokenInfo(address, cluster, includeImage);
+    return {
+      name: info.name || "Unknown Token",
+      symbol: info.symbol || "UNKNOWN",
+      image: info.image,
+    };
+  } catch (error) {
+    console.warn(`Failed to fetch metadata for token ${address}:`, error);
+    return { name: "Unknown Token", symbol: "UNKNOWN", image: null };
+  }
+}
 
 function App() {
   const mode: PaletteMode = "light";
@@ -41,23 +120,65 @@ function App() {
   );
   const [walletAddress, setWalletAddress] = useState<string | null>(null);
   const [walletBalance, setWalletBalance] = useState<number | null>(null);
+  const [balanceError, setBalanceError] = useState<string | null>(null);
   const [recipient, setRecipient] = useState<string>("");
-  const [transferAmount, setTransferAmount] = useState<number>(0);
-  const [txhash, setTxhash] = useState<string | null>(null);
+  const [transferAmount, setTransferAmount] = useState<string>("");
+  const [txState, setTxState] = useState<TransactionState | null>(null);
+  const [txError, setTxError] = useState<string | null>(null);
+  const [computeBudget, setComputeBudget] = useState<ComputeBudgetSettings>({});
   const [splRecipient, setSplRecipient] = useState<string>("");
-  const [splTransferAmount, setSplTransferAmount] = useState<number>(0);
-  const [splTxhash, setSplTxhash] = useState<string | null>(null);
+  const [splTransferAmount, setSplTransferAmount] = useState<string>("");
+  const [splMemo, setSplMemo] = useState<string>("");
+  const [splTxState, setSplTxState] = useState<TransactionState | null>(null);
   const [splError, setSplError] = useState<string | null>(null);
-  const [isMainnet, setIsMainnet] = useState<boolean>(true);
-  const [message, setMessage] = useState<string>("");
-  const [signedMessage, setSignedMessage] = useState<string>("");
+  const [splComputeBudget, setSplComputeBudget] =
+    useState<ComputeBudgetSettings>({});
+  const [pendingTransaction, setPendingTransaction] =
+    useState<PendingTransaction | null>(null);
+  const [transactionPreview, setTransactionPreview] =
+    useState<TransactionPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState<boolean>(false);
+  // Build transfers on the active account's durable nonce
+  const [useDurableNonce, setUseDurableNonce] = useState<boolean>(false);
+  const [clusterSettings, setClusterSettings] =
+    useState<ClusterSettings>(loadClusterSettings);
+  const cluster = useMemo(() => getCluster(clusterSettings), [clusterSettings]);
+  const [keyError, setKeyError] = useState<string | null>(null);
+  const [keyWarnings, setKeyWarnings] = useState<string[]>([]);
+  const [keystores, setKeystores] = useState<EncryptedKeystore[]>([]);
+  const [isKeystoreLoaded, setIsKeystoreLoaded] = useState<boolean>(false);
+  // Offline signing tools opened from the unlock screen, without a key
+  const [showOfflineTools, setShowOfflineTools] = useState<boolean>(false);
+  const [unlockedKeys, setUnlockedKeys] = useState<{
+    [address: string]: Uint8Array;
+  }>({});
+  const [accountLabel, setAccountLabel] = useState<string>("");
+  const [password, setPassword] = useState<string>("");
+  const [confirmPassword, setConfirmPassword] = useState<string>("");
+  const [newPassword, setNewPassword] = useState<string>("");
+  const [keystoreError, setKeystoreError] = useState<string | null>(null);
+  const [keystoreStatus, setKeystoreStatus] = useState<string | null>(null);
+  const [autoLockMinutes, setAutoLockMinutes] = useState<number>(
+    Number(localStorage.getItem("autoLockMinutes")) || DEFAULT_AUTO_LOCK_MINUTES
+  );
   const [splTokenBalances, setSplTokenBalances] = useState<{
     [key: string]: number;
   }>({});
   const [selectedTokenAddress, setSelectedTokenAddress] = useState<string>("");
   const [tokenMetadata, setTokenMetadata] = useState<{
-    [key: string]: { name: string; symbol: string };
+    [key: string]: TokenDisplayInfo;
   }>({});
+  // Off-chain token images are only fetched once the user opts in
+  const [loadTokenImages, setLoadTokenImages] = useState<boolean>(
+    localStorage.getItem("loadTokenImages") === "true"
+  );
+
+  // Aborted to stop tracking the sent transactions of the active account
+  const tracking = useRef<AbortController>(new AbortController());
+
+  // Private key of the active account, only available once unlocked
+  const secretKey = walletAddress ? unlockedKeys[walletAddress] || null : null;
 
   /*
    * Fetch SPL token balances when wallet address changes
@@ -66,32 +187,20 @@ function App() {
     const fetchSplBalances = async () => {
       if (walletAddress) {
         try {
-          const balances = await getSPLTokenBalances(walletAddress, isMainnet);
+          const balances = await getSPLTokenBalances(walletAddress, cluster);
           setSplTokenBalances(balances);
 
           // Fetch metadata for all tokens
-          const metadata: { [key: string]: { name: string; symbol: string } } =
-            {};
+          const metadata: { [key: string]: TokenDisplayInfo } = {};
           const tokenAddresses = Object.keys(balances);
 
           // Fetch metadata for each token in parallel
           const metadataPromises = tokenAddresses.map(async (address) => {
-            try {
-              const info = await getSPLTokenInfo(address, isMainnet);
-              metadata[address] = {
-                name: info.name || "Unknown Token",
-                symbol: info.symbol || "UNKNOWN",
-              };
-            } catch (error) {
-              console.warn(
-                `Failed to fetch metadata for token ${address}:`,
-                error
-              );
-              metadata[address] = {
-                name: "Unknown Token",
-                symbol: "UNKNOWN",
-              };
-            }
+            metadata[address] = await getTokenDisplayInfo(
+              address,
+              cluster,
+              loadTokenImages
+            );
           });
 
           await Promise.all(metadataPromises);
@@ -103,40 +212,460 @@ function App() {
     };
 
     fetchSplBalances();
-  }, [walletAddress, isMainnet]);
+  }, [walletAddress, cluster, loadTokenImages]);
+
+  /*
+   * Load the encrypted keystores persisted in IndexedDB, if any.
+   */
+  useEffect(() => {
+    const loadKeystores = async () => {
+      try {
+        setKeystores(await getKeystores());
+      } catch (error) {
+        console.error("Error loading keystores:", error);
+      } finally {
+        setIsKeystoreLoaded(true);
+      }
+    };
+
+    loadKeystores();
+  }, []);
+
+  /*
+   * Fetch the SOL balance of the address, showing the error instead when the
+   * RPC fails.
+   */
+  const refreshBalance = async (address: string, balanceCluster: Cluster) => {
+    setWalletBalance(null);
+    setBalanceError(null);
+    try {
+      setWalletBalance(await getSolBalance(address, balanceCluster));
+    } catch (e: any) {
+      console.error(e);
+      setBalanceError(e.message);
+    }
+  };
 
   /*
-   * Import the Solana wallet using the ed25519 scalar private key
-   * and fetch the balance.
+   * Fetch the SOL and token balances of the active account again, e.g. after
+   * a sweep. Metadata is only looked up for tokens the list did not hold.
+   */
+  const refreshBalances = async () => {
+    if (!walletAddress) {
+      return;
+    }
+    await refreshBalance(walletAddress, cluster);
+    try {
+      const balances = await getSPLTokenBalances(walletAddress, cluster);
+      setSplTokenBalances(balances);
+
+      const newTokens = Object.keys(balances).filter(
+        (address) => !tokenMetadata[address]
+      );
+      const infos = await Promise.all(
+        newTokens.map((address) =>
+          getTokenDisplayInfo(address, cluster, loadTokenImages)
+        )
+      );
+      setTokenMetadata((current) => {
+        const metadata = { ...current };
+        newTokens.forEach((address, i) => {
+          metadata[address] = infos[i];
+        });
+        return metadata;
+      });
+    } catch (error) {
+      console.error("Error fetching SPL token balances:", error);
+    }
+  };
+
+  /*
+   * Stop tracking the transactions sent from the account being left.
+   */
+  const stopTracking = useCallback(() => {
+    tracking.current.abort();
+    tracking.current = new AbortController();
+  }, []);
+
+  /*
+   * Make the given account active and fetch its balance.
+   */
+  const switchAccount = async (address: string) => {
+    stopTracking();
+    setWalletAddress(address);
+    setWalletBalance(null);
+    setSplTokenBalances({});
+    setTokenMetadata({});
+    setSelectedTokenAddress("");
+    setTxState(null);
+    setTxError(null);
+    setSplTxState(null);
+    setSplError(null);
+    setUseDurableNonce(false);
+
+    await refreshBalance(address, cluster);
+  };
+
+  /*
+   * Encrypt a newly imported private key into a keystore, returning the
+   * account address and the key bytes.
+   */
+  const encryptAccount = async (
+    privateKey: string,
+    label: string,
+    accountPassword: string
+  ): Promise<{ address: string; key: Uint8Array }> => {
+    // Detect the key format and surface any scalar warnings
+    const parsed = parsePrivateKey(privateKey);
+    setKeyWarnings(parsed.warnings);
+
+    const address = await getPublicKey(parsed.secretKey);
+    if (keystores.some((keystore) => keystore.address === address)) {
+      throw new Error(`Account ${address} is already imported`);
+    }
+
+    const encrypted = await createKeystore(
+      parsed.secretKey,
+      address,
+      accountPassword,
+      label || undefined
+    );
+    await saveKeystore(encrypted);
+    setKeystores((current) => [...current, encrypted]);
+
+    return { address, key: parsed.secretKey };
+  };
+
+  /*
+   * Import the Solana wallet using the ed25519 scalar private key,
+   * encrypt it into the keystore and fetch the balance.
    */
   const importSolanaWallet = async () => {
     if (!scalarKey) {
       return;
     }
 
+    if (!password || password !== confirmPassword) {
+      setKeyError("Enter the same password twice to encrypt the key");
+      return;
+    }
+
     try {
-      const address = await getPublicKey(scalarKey);
-      setWalletAddress(address);
+      const { address, key } = await encryptAccount(
+        scalarKey,
+        accountLabel,
+        password
+      );
+      setScalarKey("");
+      setKeyError(null);
+      setPassword("");
+      setConfirmPassword("");
+      setAccountLabel("");
 
-      const solBalance = await getSolBalance(address, isMainnet);
-      setWalletBalance(solBalance);
-    } catch (e) {
+      setUnlockedKeys({ [address]: key });
+      await switchAccount(address);
+    } catch (e: any) {
       console.log(e);
-      alert("Invalid private key");
+      setKeyError(e.message || "Invalid private key");
+    }
+  };
+
+  /*
+   * Import another account while the wallet is unlocked. The wallet password
+   * is checked against an unlocked keystore so all accounts share it.
+   */
+  const addAccount = async (
+    privateKey: string,
+    label: string,
+    accountPassword: string
+  ) => {
+    const unlockedKeystore = keystores.find((k) => unlockedKeys[k.address]);
+    if (unlockedKeystore) {
+      const { unlocked } = await unlockKeystores(
+        [unlockedKeystore],
+        accountPassword
+      );
+      Object.values(unlocked).forEach((key) => key.fill(0));
+    }
+
+    const { address, key } = await encryptAccount(
+      privateKey,
+      label,
+      accountPassword
+    );
+    setUnlockedKeys((current) => ({ ...current, [address]: key }));
+    await switchAccount(address);
+  };
+
+  /*
+   * Change the label of an account.
+   */
+  const renameAccount = async (address: string, label: string) => {
+    const keystore = keystores.find((k) => k.address === address);
+    if (!keystore) {
+      return;
+    }
+
+    const updated = { ...keystore, label: label || undefined };
+    await saveKeystore(updated);
+    setKeystores((current) =>
+      current.map((k) => (k.address === address ? updated : k))
+    );
+  };
+
+  /*
+   * Remove an account's keystore from this browser.
+   */
+  const removeAccount = async (address: string) => {
+    if (
+      !window.confirm(
+        `Remove ${address} from this browser? Make sure you have a backup.`
+      )
+    ) {
+      return;
+    }
+
+    await deleteKeystore(address);
+    const remaining = keystores.filter((k) => k.address !== address);
+    setKeystores(remaining);
+
+    const remainingKeys = { ...unlockedKeys };
+    remainingKeys[address]?.fill(0);
+    delete remainingKeys[address];
+    setUnlockedKeys(remainingKeys);
+
+    if (address === walletAddress) {
+      const next = Object.keys(remainingKeys)[0];
+      if (next) {
+        await switchAccount(next);
+      } else {
+        lockWallet();
+      }
+    }
+  };
+
+  /*
+   * Decrypt the keystores with the password and open the wallet.
+   */
+  const unlockWallet = async () => {
+    if (keystores.length === 0 || !password) {
+      return;
+    }
+
+    try {
+      const { unlocked, failed } = await unlockKeystores(keystores, password);
+      setPassword("");
+      setKeystoreError(null);
+
+      setUnlockedKeys(unlocked);
+      await switchAccount(Object.keys(unlocked)[0]);
+      if (failed.length > 0) {
+        setKeystoreStatus(
+          `Not unlocked with this password: ${failed.join(", ")}`
+        );
+      }
+    } catch (e: any) {
+      console.error(e);
+      setKeystoreError(e.message);
+    }
+  };
+
+  /*
+   * Zero and drop the decrypted private keys and return to the unlock screen.
+   */
+  const lockWallet = useCallback(() => {
+    stopTracking();
+    setUnlockedKeys((current) => {
+      Object.values(current).forEach((key) => key.fill(0));
+      return {};
+    });
+    setWalletAddress(null);
+    setWalletBalance(null);
+    setBalanceError(null);
+    setSplTokenBalances({});
+    setTokenMetadata({});
+    setSelectedTokenAddress("");
+    setNewPassword("");
+    setKeystoreStatus(null);
+    setPendingTransaction(null);
+    setTransactionPreview(null);
+    setUseDurableNonce(false);
+  }, [stopTracking]);
+
+  /*
+   * Lock the wallet after a period without user activity.
+   */
+  useEffect(() => {
+    if (!walletAddress) {
+      return;
+    }
+
+    const timeout = autoLockMinutes * 60 * 1000;
+    let timer = setTimeout(lockWallet, timeout);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lockWallet, timeout);
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, resetTimer)
+    );
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, resetTimer)
+      );
+    };
+  }, [walletAddress, autoLockMinutes, lockWallet]);
+
+  /*
+   * Turn the fetching of off-chain token images on or off, and persist it.
+   */
+  const updateLoadTokenImages = (load: boolean) => {
+    localStorage.setItem("loadTokenImages", String(load));
+    setLoadTokenImages(load);
+  };
+
+  /*
+   * Change and persist the idle time before the wallet locks itself.
+   */
+  const updateAutoLockMinutes = (minutes: number) => {
+    localStorage.setItem("autoLockMinutes", String(minutes));
+    setAutoLockMinutes(minutes);
+  };
+
+  /*
+   * Remove all keystores so a different private key can be imported.
+   */
+  const forgetWallet = async () => {
+    if (
+      keystores.length === 0 ||
+      !window.confirm(
+        "Remove all encrypted keys from this browser? Make sure you have a backup."
+      )
+    ) {
+      return;
+    }
+
+    await Promise.all(keystores.map((k) => deleteKeystore(k.address)));
+    setKeystores([]);
+    setPassword("");
+    setKeystoreError(null);
+  };
+
+  /*
+   * Re-encrypt the unlocked keystores under a new password.
+   */
+  const changePassword = async () => {
+    if (!password || !newPassword) {
+      return;
+    }
+
+    try {
+      const updated = await Promise.all(
+        keystores
+          .filter((keystore) => unlockedKeys[keystore.address])
+          .map((keystore) =>
+            changeKeystorePassword(keystore, password, newPassword)
+          )
+      );
+      await Promise.all(updated.map(saveKeystore));
+      setKeystores((current) =>
+        current.map((k) => updated.find((u) => u.address === k.address) || k)
+      );
+      setPassword("");
+      setNewPassword("");
+      setKeystoreError(null);
+      setKeystoreStatus("Password changed");
+    } catch (e: any) {
+      console.error(e);
+      setKeystoreStatus(null);
+      setKeystoreError(e.message);
+    }
+  };
+
+  /*
+   * Download the encrypted keystores as a backup file.
+   */
+  const downloadBackup = () => {
+    if (keystores.length === 0) {
+      return;
+    }
+
+    const blob = new Blob([exportKeystoreBackup(keystores)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "ed25519-scalar-wallet-backup.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  /*
+   * Restore encrypted keystores from a backup file.
+   */
+  const restoreBackup = async (file: File) => {
+    try {
+      const restored = parseKeystoreBackup(await file.text());
+
+      // Only replace keystores already in this browser once confirmed
+      const existing = restored.filter((keystore) =>
+        keystores.some((k) => k.address === keystore.address)
+      );
+      const existingAddresses = existing.map((k) => k.address).join(", ");
+      const replace =
+        existing.length > 0 &&
+        window.confirm(
+          `This browser already holds ${existingAddresses}. Replace with the ` +
+            "backup? Cancel to restore only the other accounts."
+        );
+      await Promise.all(
+        restored
+          .filter((keystore) => replace || !existing.includes(keystore))
+          .map(saveKeystore)
+      );
+      setKeystores(await getKeystores());
+      setKeyError(null);
+    } catch (e: any) {
+      console.error(e);
+      setKeyError(e.message);
     }
   };
 
   /*
-   * Toggle which network to use.
+   * Copy the 64-byte expanded secret key (scalar || prefix) to the clipboard.
+   * It is derived for the copy only and never kept or shown.
    */
-  const toggleIsMainnet = async (event: React.MouseEvent, value: any) => {
-    const target = event.target as HTMLButtonElement;
-    const buttonValue = target.value;
+  const copyExpandedKey = async () => {
+    if (!secretKey) {
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(
+        await getExpandedSecretKey(secretKey)
+      );
+      alert(
+        "Expanded key copied. Clear the clipboard once it is stored safely."
+      );
+    } catch (e) {
+      console.error(e);
+      alert("Could not copy the expanded key");
+    }
+  };
 
-    const updatedIsMainnet = buttonValue === "mainnet";
-    const didChange = updatedIsMainnet !== isMainnet;
+  /*
+   * Switch to another cluster and persist the choice.
+   */
+  const changeCluster = async (settings: ClusterSettings) => {
+    const updatedCluster = getCluster(settings);
+    const didChange =
+      JSON.stringify(updatedCluster) !== JSON.stringify(cluster);
 
-    setIsMainnet(updatedIsMainnet);
+    saveClusterSettings(settings);
+    setClusterSettings(settings);
 
     if (walletAddress && didChange) {
       setWalletBalance(null);
@@ -145,40 +674,27 @@ function App() {
       setSelectedTokenAddress("");
 
       // Re-fetch SOL balance
-      const solBalance = await getSolBalance(walletAddress, updatedIsMainnet);
-      setWalletBalance(solBalance);
+      await refreshBalance(walletAddress, updatedCluster);
 
       // Re-fetch SPL token balances and metadata
       try {
         const balances = await getSPLTokenBalances(
           walletAddress,
-          updatedIsMainnet
+          updatedCluster
         );
         setSplTokenBalances(balances);
 
         // Fetch metadata for all tokens
-        const metadata: { [key: string]: { name: string; symbol: string } } =
-          {};
+        const metadata: { [key: string]: TokenDisplayInfo } = {};
         const tokenAddresses = Object.keys(balances);
 
         // Fetch metadata for each token in parallel
         const metadataPromises = tokenAddresses.map(async (address) => {
-          try {
-            const info = await getSPLTokenInfo(address, updatedIsMainnet);
-            metadata[address] = {
-              name: info.name || "Unknown Token",
-              symbol: info.symbol || "UNKNOWN",
-            };
-          } catch (error) {
-            console.warn(
-              `Failed to fetch metadata for token ${address}:`,
-              error
-            );
-            metadata[address] = {
-              name: "Unknown Token",
-              symbol: "UNKNOWN",
-            };
-          }
+          metadata[address] = await getTokenDisplayInfo(
+            address,
+            updatedCluster,
+            loadTokenImages
+          );
         });
 
         await Promise.all(metadataPromises);
@@ -190,76 +706,174 @@ function App() {
   };
 
   /*
-   * Transfer SOL to the recipient address.
+   * Simulate the transaction and open the preview dialog. Nothing is signed
+   * until the user confirms.
    */
-  const transferSol = async () => {
-    if (!walletAddress || !recipient) {
-      return;
-    }
+  const reviewTransaction = async (pending: PendingTransaction) => {
+    setTransactionPreview(null);
+    setPreviewError(null);
+    setPendingTransaction(pending);
 
-    const txhash = await signAndSendSolTransaction(
-      scalarKey,
-      walletAddress,
-      recipient,
-      transferAmount,
-      isMainnet
-    );
+    try {
+      const preview = await previewTransaction(pending.transaction, cluster);
+      setTransactionPreview(preview);
+    } catch (e: any) {
+      console.error(e);
+      setPreviewError(`Could not simulate the transaction: ${e.message}`);
+    }
+  };
 
-    setTxhash(txhash);
+  /*
+   * Close the preview dialog without signing.
+   */
+  const cancelTransaction = () => {
+    setPendingTransaction(null);
+    setTransactionPreview(null);
+    setPreviewError(null);
   };
 
   /*
-   * Transfer SPL token to the recipient address.
+   * Sign and send the previewed transaction once the user confirms, then
+   * track it until it is finalized, fails or expires.
    */
-  const transferSpl = async () => {
-    if (!walletAddress || !splRecipient || !selectedTokenAddress) {
+  const confirmTransaction = async () => {
+    if (!pendingTransaction || !secretKey || !walletAddress) {
       return;
     }
 
+    const { transaction, onUpdate, onError } = pendingTransaction;
+    setIsSending(true);
     try {
-      const txhash = await signAndSendSPLTransferTransaction(
-        scalarKey,
+      await signAndSendTransaction(
+        secretKey,
         walletAddress,
-        splRecipient,
-        splTransferAmount,
-        selectedTokenAddress,
-        isMainnet
+        transaction,
+        cluster
       );
-      setSplTxhash(txhash);
-      setSplError(null);
     } catch (e: any) {
       console.error(e);
-      setSplTxhash(null);
-      setSplError(e.message);
+      onError(e.message);
+      return;
+    } finally {
+      setIsSending(false);
+      cancelTransaction();
+    }
+
+    const { signal } = tracking.current;
+    try {
+      await trackTransaction(transaction, cluster, onUpdate, undefined, signal);
+    } catch (e: any) {
+      if (!signal.aborted) {
+        console.error(e);
+        onError(`Could not track the transaction: ${e.message}`);
+      }
     }
   };
 
   /*
-   * Sign an arbitrary message.
+   * Transfer SOL to the recipient address.
    */
-  const signMessage = async () => {
-    if (!message) {
+  const transferSol = async () => {
+    if (!secretKey || !walletAddress || !recipient) {
       return;
     }
 
-    // prep the private key hex
-    const privateKeyHex = Buffer.from(bs58.default.decode(scalarKey)).toString(
-      "hex"
-    );
+    try {
+      const transaction = await buildSolTransferTransaction(
+        walletAddress,
+        recipient,
+        transferAmount,
+        cluster,
+        computeBudget,
+        useDurableNonce
+      );
+      await reviewTransaction({
+        transaction,
+        onUpdate: (state) => {
+          setTxState(state);
+          setTxError(null);
+        },
+        onError: (message) => {
+          setTxState(null);
+          setTxError(message);
+        },
+      });
+    } catch (e: any) {
+      console.error(e);
+      setTxState(null);
+      setTxError(e.message);
+    }
+  };
 
-    // Convert the serialized transaction to a hex string
-    const serializedHex = Buffer.from(message).toString("hex");
-    const transactionSignature = await signAsync(serializedHex, privateKeyHex);
+  /*
+   * Transfer SPL token to the recipient address.
+   */
+  const transferSpl = async () => {
+    if (
+      !secretKey ||
+      !walletAddress ||
+      !splRecipient ||
+      !selectedTokenAddress
+    ) {
+      return;
+    }
 
-    // Convert uint8 array to Buffer
-    const signatureBuffer = Buffer.from(transactionSignature);
-    setSignedMessage(signatureBuffer.toString("hex"));
+    try {
+      const transaction = await buildSPLTransferTransaction(
+        walletAddress,
+        splRecipient,
+        splTransferAmount,
+        selectedTokenAddress,
+        cluster,
+        splComputeBudget,
+        useDurableNonce,
+        splMemo.trim() || undefined
+      );
+      await reviewTransaction({
+        transaction,
+        onUpdate: (state) => {
+          setSplTxState(state);
+          setSplError(null);
+        },
+        onError: (message) => {
+          setSplTxState(null);
+          setSplError(message);
+        },
+      });
+    } catch (e: any) {
+      console.error(e);
+      setSplTxState(null);
+      setSplError(e.message);
+    }
   };
 
   return (
     <ThemeProvider theme={defaultTheme}>
+      {/* Build and broadcast offline signed transactions without a key */}
+      {!walletAddress && showOfflineTools && (
+        <Container maxWidth="sm" sx={{ pb: 4 }}>
+          <Stack direction="row" spacing={2} sx={{ pt: 1.5 }}>
+            <Button
+              variant="outlined"
+              onClick={() => setShowOfflineTools(false)}
+            >
+              Back
+            </Button>
+            <ClusterSelector
+              settings={clusterSettings}
+              onChange={changeCluster}
+            />
+          </Stack>
+          <OfflineSigningPanel
+            signerAddress={null}
+            secretKey={null}
+            cluster={cluster}
+          />
+        </Container>
+      )}
+
       {/* Show the private key input */}
-      {!walletAddress && (
+      {!walletAddress && !showOfflineTools && (
         <Container
           maxWidth="sm"
           style={{
@@ -278,18 +892,121 @@ function App() {
               borderRadius: 2,
             }}
           >
+            {!isKeystoreLoaded && (
+              <Typography variant="body1">Loading...</Typography>
+            )}
+
+            {/* Form to unlock the encrypted keystores */}
+            {isKeystoreLoaded && keystores.length > 0 && (
+              <>
+                <Typography variant="h5" component="h1" gutterBottom>
+                  Unlock wallet
+                </Typography>
+                {keystores.map((keystore) => (
+                  <Typography
+                    key={keystore.address}
+                    variant="body2"
+                    gutterBottom
+                    sx={{ wordBreak: "break-all" }}
+                  >
+                    {keystore.label
+                      ? `${keystore.label}: ${keystore.address}`
+                      : keystore.address}
+                  </Typography>
+                ))}
+                <TextField
+                  fullWidth
+                  label="Password"
+                  type="password"
+                  variant="outlined"
+                  onChange={(e) => {
+                    setPassword(e.target.value);
+                    setKeystoreError(null);
+                  }}
+                  onKeyDown={(e) => e.key === "Enter" && unlockWallet()}
+                  value={password}
+                  error={!!keystoreError}
+                  helperText={keystoreError}
+                />
+                <Button onClick={() => unlockWallet()}>Unlock</Button>
+                <Button color="error" onClick={() => forgetWallet()}>
+                  Forget Wallet
+                </Button>
+              </>
+            )}
+
             {/* Form to input ed25119 scalar private key and an import button */}
-            <Typography variant="h5" component="h1" gutterBottom>
-              Enter ed25519-scalar private key
-            </Typography>
-            <TextField
-              fullWidth
-              label="Input"
-              variant="outlined"
-              onChange={(e) => setScalarKey(e.target.value)}
-              value={scalarKey}
-            />
-            <Button onClick={() => importSolanaWallet()}>Import</Button>
+            {isKeystoreLoaded && keystores.length === 0 && (
+              <>
+                <Typography variant="h5" component="h1" gutterBottom>
+                  Enter ed25519-scalar private key
+                </Typography>
+                <TextField
+                  fullWidth
+                  label="Input"
+                  variant="outlined"
+                  onChange={(e) => {
+                    setScalarKey(e.target.value);
+                    setKeyError(null);
+                  }}
+                  value={scalarKey}
+                  error={!!keyError}
+                  helperText={
+                    keyError ||
+                    "Base58, hex, base64 or a JSON byte array. 32-byte scalar or 64-byte expanded key."
+                  }
+                />
+                <TextField
+                  fullWidth
+                  label="Label (optional)"
+                  variant="outlined"
+                  onChange={(e) => setAccountLabel(e.target.value)}
+                  value={accountLabel}
+                  sx={{ mt: 2 }}
+                />
+                <TextField
+                  fullWidth
+                  label="Password"
+                  type="password"
+                  variant="outlined"
+                  onChange={(e) => setPassword(e.target.value)}
+                  value={password}
+                  sx={{ mt: 2 }}
+                />
+                <TextField
+                  fullWidth
+                  label="Confirm Password"
+                  type="password"
+                  variant="outlined"
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  value={confirmPassword}
+                  sx={{ mt: 2 }}
+                  helperText="The key is encrypted with this password and stored in this browser."
+                />
+                <Button onClick={() => importSolanaWallet()}>Import</Button>
+                <Button component="label">
+                  Restore Backup
+                  <input
+                    hidden
+                    type="file"
+                    accept="application/json"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) {
+                        restoreBackup(file);
+                      }
+                      e.target.value = "";
+                    }}
+                  />
+                </Button>
+              </>
+            )}
+
+            {isKeystoreLoaded && (
+              <Button onClick={() => setShowOfflineTools(true)}>
+                Offline Signing Tools
+              </Button>
+            )}
           </Box>
         </Container>
       )}
@@ -314,18 +1031,15 @@ function App() {
             }}
             spacing={2}
           >
-            {/* Toggle mainnet or devnet */}
-            <ToggleButtonGroup
-              color="secondary"
-              value={isMainnet ? "mainnet" : "devnet"}
-              exclusive
-              onChange={toggleIsMainnet}
-              aria-label="Platform"
-            >
-              <ToggleButton value="mainnet">Mainnet</ToggleButton>
-              <ToggleButton value="devnet">Devnet</ToggleButton>
-            </ToggleButtonGroup>
+            {/* Cluster */}
+            <ClusterSelector
+              settings={clusterSettings}
+              onChange={changeCluster}
+            />
             <Typography variant="h4">Solana Wallet</Typography>
+            <Button variant="outlined" onClick={lockWallet}>
+              Lock Now
+            </Button>
           </Stack>
 
           <Container
@@ -345,8 +1059,7 @@ function App() {
             >
               {/* Wallet Details */}
               <Typography variant="h5" sx={{ mt: 4 }}>
-                Wallet Details on Solana{" "}
-                <b>{isMainnet ? "Mainnet" : "Devnet"}</b>
+                Wallet Details on Solana <b>{CLUSTER_LABELS[cluster.name]}</b>
               </Typography>
               <Typography
                 variant="body1"
@@ -358,9 +1071,7 @@ function App() {
               >
                 Address:{" "}
                 <Link
-                  href={`https://explorer.solana.com/address/${walletAddress}${
-                    isMainnet ? "" : "?cluster=devnet"
-                  }`}
+                  href={getExplorerUrl(cluster, `address/${walletAddress}`)}
                   target="_blank"
                   rel="noopener noreferrer"
                 >
@@ -372,28 +1083,49 @@ function App() {
                 </Link>
               </Typography>
 
+              {keyWarnings.map((warning) => (
+                <Typography key={warning} variant="body2" color="warning">
+                  {warning}
+                </Typography>
+              ))}
+
               <Typography variant="body1">
                 SOL Balance:{" "}
-                {walletBalance !== null ? walletBalance : "Loading..."}
+                {walletBalance !== null
+                  ? walletBalance
+                  : balanceError
+                  ? "Unavailable"
+                  : "Loading..."}
               </Typography>
+              {balanceError && (
+                <Typography variant="body2" color="error">
+                  {balanceError}{" "}
+                  <Link
+                    component="button"
+                    onClick={() => refreshBalance(walletAddress, cluster)}
+                  >
+                    Retry
+                  </Link>
+                </Typography>
+              )}
               <Link
-                href={`https://explorer.solana.com/address/${walletAddress}${
-                  isMainnet ? "" : "?cluster=devnet"
-                }`}
+                href={getExplorerUrl(cluster, `address/${walletAddress}`)}
                 target="_blank"
                 rel="noopener noreferrer"
               >
                 Transaction History
               </Link>
               <Link
-                href={`https://explorer.solana.com/address/${walletAddress}/tokens${
-                  isMainnet ? "" : "?cluster=devnet"
-                }`}
+                href={getExplorerUrl(
+                  cluster,
+                  `address/${walletAddress}/tokens`
+                )}
                 target="_blank"
                 rel="noopener noreferrer"
               >
                 Assets
               </Link>
+              <Button onClick={copyExpandedKey}>Copy Expanded Key</Button>
 
               {/* Transfer SOL */}
               <Typography variant="h5" sx={{ mt: 4 }}>
@@ -408,14 +1140,17 @@ function App() {
                 sx={{ mt: 2 }}
               />
               <TextField
-                label="Amount"
+                label="Amount (SOL)"
                 variant="outlined"
-                type="number"
                 fullWidth
                 value={transferAmount}
-                onChange={(e) => setTransferAmount(parseFloat(e.target.value))}
+                onChange={(e) => setTransferAmount(e.target.value)}
                 sx={{ mt: 2 }}
-                inputProps={{ min: 0, step: "any" }}
+                inputProps={{ inputMode: "decimal" }}
+              />
+              <ComputeBudgetFields
+                value={computeBudget}
+                onChange={setComputeBudget}
               />
               <Button
                 variant="contained"
@@ -425,18 +1160,12 @@ function App() {
               >
                 Transfer SOL
               </Button>
-              {txhash && (
-                <Typography variant="body1">
-                  Transaction Hash:
-                  <Link
-                    href={`https://explorer.solana.com/tx/${txhash}${
-                      isMainnet ? "" : "?cluster=devnet"
-                    }`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                  >
-                    {txhash}
-                  </Link>
+              {txState && (
+                <TransactionProgress state={txState} cluster={cluster} />
+              )}
+              {txError && (
+                <Typography variant="body1" color="error">
+                  {txError}
                 </Typography>
               )}
 
@@ -467,6 +1196,13 @@ function App() {
 
                       return (
                         <MenuItem key={address} value={address}>
+                          {metadata?.image && (
+                            <Avatar
+                              src={metadata.image}
+                              alt=""
+                              sx={{ width: 24, height: 24, mr: 1 }}
+                            />
+                          )}
                           {displayName} - Balance: {balance}
                         </MenuItem>
                       );
@@ -474,6 +1210,16 @@ function App() {
                   )}
                 </Select>
               </FormControl>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={loadTokenImages}
+                    onChange={(e) => updateLoadTokenImages(e.target.checked)}
+                  />
+                }
+                label="Load token images (reveals your IP to the hosts chosen by token creators)"
+                sx={{ mt: 1 }}
+              />
               <TextField
                 label="Recipient Address"
                 variant="outlined"
@@ -485,14 +1231,24 @@ function App() {
               <TextField
                 label="Amount"
                 variant="outlined"
-                type="number"
                 fullWidth
                 value={splTransferAmount}
-                onChange={(e) =>
-                  setSplTransferAmount(parseFloat(e.target.value))
-                }
+                onChange={(e) => setSplTransferAmount(e.target.value)}
+                sx={{ mt: 2 }}
+                inputProps={{ inputMode: "decimal" }}
+              />
+              <TextField
+                label="Memo (optional)"
+                variant="outlined"
+                fullWidth
+                value={splMemo}
+                onChange={(e) => setSplMemo(e.target.value)}
+                helperText="Added automatically when the recipient requires a memo"
                 sx={{ mt: 2 }}
-                inputProps={{ min: 0 }}
+              />
+              <ComputeBudgetFields
+                value={splComputeBudget}
+                onChange={setSplComputeBudget}
               />
               <Button
                 variant="contained"
@@ -502,19 +1258,8 @@ function App() {
               >
                 Transfer SPL
               </Button>
-              {splTxhash && (
-                <Typography variant="body1">
-                  Transaction Hash:
-                  <Link
-                    href={`https://explorer.solana.com/tx/${splTxhash}${
-                      isMainnet ? "" : "?cluster=devnet"
-                    }`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                  >
-                    {splTxhash}
-                  </Link>
-                </Typography>
+              {splTxState && (
+                <TransactionProgress state={splTxState} cluster={cluster} />
               )}
               {splError && (
                 <Typography variant="body1" color="error">
@@ -522,35 +1267,178 @@ function App() {
                 </Typography>
               )}
 
+              {/* Sweep everything to another address */}
+              {secretKey && (
+                <SweepPanel
+                  key={`${walletAddress}-${cluster.rpcUrl}`}
+                  address={walletAddress}
+                  secretKey={secretKey}
+                  cluster={cluster}
+                  onComplete={refreshBalances}
+                />
+              )}
+
+              {/* Close empty token accounts and burn dust */}
+              {secretKey && (
+                <TokenAccountsPanel
+                  key={`${walletAddress}-${cluster.rpcUrl}`}
+                  address={walletAddress}
+                  secretKey={secretKey}
+                  cluster={cluster}
+                  onComplete={refreshBalances}
+                />
+              )}
+
+              {/* Transaction history */}
+              <HistoryPanel
+                key={`${walletAddress}-${cluster.rpcUrl}`}
+                address={walletAddress}
+                cluster={cluster}
+              />
+
               {/* Sign Message */}
+              {secretKey && (
+                <MessageSigningPanel
+                  key={walletAddress}
+                  address={walletAddress}
+                  secretKey={secretKey}
+                />
+              )}
+
+              {/* Sign-In With Solana */}
+              {secretKey && (
+                <SignInPanel
+                  key={walletAddress}
+                  address={walletAddress}
+                  secretKey={secretKey}
+                  cluster={cluster}
+                />
+              )}
+
+              {/* Offline signing */}
+              <OfflineSigningPanel
+                signerAddress={walletAddress}
+                secretKey={secretKey}
+                cluster={cluster}
+              />
+
+              {/* Externally built transactions */}
+              {secretKey && (
+                <ExternalSigningPanel
+                  key={walletAddress}
+                  signerAddress={walletAddress}
+                  secretKey={secretKey}
+                  cluster={cluster}
+                />
+              )}
+
+              {/* Durable nonce */}
+              <NoncePanel
+                key={`${walletAddress}-${cluster.rpcUrl}`}
+                address={walletAddress}
+                cluster={cluster}
+                useDurableNonce={useDurableNonce}
+                onUseDurableNonceChange={setUseDurableNonce}
+                onSubmit={reviewTransaction}
+              />
+
+              {/* Accounts */}
+              <AccountsPanel
+                accounts={keystores.map((keystore) => ({
+                  address: keystore.address,
+                  label: keystore.label,
+                  isUnlocked: !!unlockedKeys[keystore.address],
+                }))}
+                activeAddress={walletAddress}
+                cluster={cluster}
+                tokenMetadata={tokenMetadata}
+                onSelect={switchAccount}
+                onRename={renameAccount}
+                onRemove={removeAccount}
+                onAdd={addAccount}
+              />
+
+              {/* Keystore */}
               <Typography variant="h5" sx={{ mt: 4 }}>
-                Sign Message
+                Keystore
               </Typography>
               <TextField
-                label="Message"
+                label="Current Password"
+                type="password"
+                variant="outlined"
+                fullWidth
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                sx={{ mt: 2 }}
+              />
+              <TextField
+                label="New Password"
+                type="password"
                 variant="outlined"
                 fullWidth
-                value={message}
-                onChange={(e) => setMessage(e.target.value)}
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
                 sx={{ mt: 2 }}
               />
               <Button
                 variant="contained"
                 color="primary"
-                onClick={signMessage}
+                onClick={changePassword}
                 sx={{ mt: 2 }}
               >
-                Sign
+                Change Password
               </Button>
-              {signedMessage && (
-                <Typography variant="body1">
-                  Signature: 0x{signedMessage}
+              <Button onClick={downloadBackup} sx={{ mt: 1 }}>
+                Download Encrypted Backup
+              </Button>
+              <FormControl fullWidth sx={{ mt: 2 }}>
+                <InputLabel>Auto-lock</InputLabel>
+                <Select
+                  value={autoLockMinutes}
+                  onChange={(e) =>
+                    updateAutoLockMinutes(Number(e.target.value))
+                  }
+                  label="Auto-lock"
+                >
+                  {AUTO_LOCK_OPTIONS.map((minutes) => (
+                    <MenuItem key={minutes} value={minutes}>
+                      After {minutes} minute{minutes > 1 ? "s" : ""} of
+                      inactivity
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              {keystoreStatus && (
+                <Typography variant="body1">{keystoreStatus}</Typography>
+              )}
+              {keystoreError && (
+                <Typography variant="body1" color="error">
+                  {keystoreError}
                 </Typography>
               )}
+
+              {/* Transaction preview */}
+              <TransactionPreviewDialog
+                open={!!pendingTransaction}
+                preview={transactionPreview}
+                error={previewError}
+                isSending={isSending}
+                walletAddress={walletAddress}
+                tokenMetadata={tokenMetadata}
+                onConfirm={confirmTransaction}
+                onCancel={cancelTransaction}
+              />
             </Stack>
           </Container>
         </Container>
       )}
+
+      {/* Wallet Standard, registered whether the wallet is locked or not */}
+      <WalletStandardPanel
+        address={walletAddress}
+        secretKey={secretKey}
+        cluster={cluster}
+      />
     </ThemeProvider>
   );
 }
@@ -0,0 +1,258 @@
+import { useState } from "react";
+import {
+  Box,
+  Button,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { AccountOverview, getAccountsOverview } from "../libs/solana";
+import { Cluster } from "../libs/cluster";
+
+export type WalletAccount = {
+  address: string;
+  label?: string;
+  // False when the keystore is encrypted under a different password
+  isUnlocked: boolean;
+};
+
+type AccountsPanelProps = {
+  accounts: WalletAccount[];
+  activeAddress: string;
+  cluster: Cluster;
+  tokenMetadata: { [key: string]: { name: string; symbol: string } };
+  onSelect: (address: string) => void;
+  onRename: (address: string, label: string) => Promise<void>;
+  onRemove: (address: string) => Promise<void>;
+  onAdd: (privateKey: string, label: string, password: string) => Promise<void>;
+};
+
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-6)}`;
+
+/*
+ * Lists the imported accounts, lets the user switch, label, add and remove
+ * them, and shows the SOL and SPL balances across all accounts.
+ */
+function AccountsPanel({
+  accounts,
+  activeAddress,
+  cluster,
+  tokenMetadata,
+  onSelect,
+  onRename,
+  onRemove,
+  onAdd,
+}: AccountsPanelProps) {
+  const [labels, setLabels] = useState<{ [key: string]: string }>({});
+  const [newKey, setNewKey] = useState<string>("");
+  const [newLabel, setNewLabel] = useState<string>("");
+  const [password, setPassword] = useState<string>("");
+  const [addError, setAddError] = useState<string | null>(null);
+  const [overview, setOverview] = useState<{
+    accounts: AccountOverview[];
+    totalSol: number;
+    totalTokenBalances: { [key: string]: number };
+  } | null>(null);
+  const [isLoadingOverview, setIsLoadingOverview] = useState<boolean>(false);
+  const [overviewError, setOverviewError] = useState<string | null>(null);
+
+  /*
+   * Import another private key into the wallet.
+   */
+  const addAccount = async () => {
+    if (!newKey || !password) {
+      return;
+    }
+
+    try {
+      await onAdd(newKey, newLabel, password);
+      setNewKey("");
+      setNewLabel("");
+      setPassword("");
+      setAddError(null);
+    } catch (e: any) {
+      console.error(e);
+      setAddError(e.message);
+    }
+  };
+
+  /*
+   * Fetch the balances of every account.
+   */
+  const refreshOverview = async () => {
+    setIsLoadingOverview(true);
+    try {
+      const result = await getAccountsOverview(
+        accounts.map((account) => account.address),
+        cluster
+      );
+      setOverview(result);
+      setOverviewError(null);
+    } catch (error: any) {
+      console.error("Error fetching accounts overview:", error);
+      setOverviewError(error.message);
+    } finally {
+      setIsLoadingOverview(false);
+    }
+  };
+
+  const tokenName = (mint: string) =>
+    tokenMetadata[mint]?.symbol || shortAddress(mint);
+
+  return (
+    <Box sx={{ width: "100%" }}>
+      <Typography variant="h5" sx={{ mt: 4 }}>
+        Accounts
+      </Typography>
+
+      {accounts.map((account) => (
+        <Stack
+          key={account.address}
+          direction="row"
+          spacing={1}
+          sx={{ mt: 2, alignItems: "center" }}
+        >
+          <TextField
+            size="small"
+            label={shortAddress(account.address)}
+            value={labels[account.address] ?? account.label ?? ""}
+            onChange={(e) =>
+              setLabels({ ...labels, [account.address]: e.target.value })
+            }
+            onBlur={() => {
+              const label = labels[account.address];
+              if (label !== undefined && label !== account.label) {
+                onRename(account.address, label);
+              }
+            }}
+            sx={{ flexGrow: 1 }}
+          />
+          {account.address === activeAddress ? (
+            <Button disabled>Active</Button>
+          ) : (
+            <Button
+              disabled={!account.isUnlocked}
+              onClick={() => onSelect(account.address)}
+            >
+              {account.isUnlocked ? "Switch" : "Locked"}
+            </Button>
+          )}
+          <Button color="error" onClick={() => onRemove(account.address)}>
+            Remove
+          </Button>
+        </Stack>
+      ))}
+
+      {/* Add another account */}
+      <Typography variant="h6" sx={{ mt: 3 }}>
+        Add Account
+      </Typography>
+      <TextField
+        label="Private Key"
+        variant="outlined"
+        fullWidth
+        value={newKey}
+        onChange={(e) => setNewKey(e.target.value)}
+        sx={{ mt: 2 }}
+      />
+      <TextField
+        label="Label"
+        variant="outlined"
+        fullWidth
+        value={newLabel}
+        onChange={(e) => setNewLabel(e.target.value)}
+        sx={{ mt: 2 }}
+      />
+      <TextField
+        label="Wallet Password"
+        type="password"
+        variant="outlined"
+        fullWidth
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        sx={{ mt: 2 }}
+        error={!!addError}
+        helperText={addError}
+      />
+      <Button
+        variant="contained"
+        color="primary"
+        onClick={addAccount}
+        sx={{ mt: 2 }}
+      >
+        Add Account
+      </Button>
+
+      {/* Balances across all accounts */}
+      <Typography variant="h6" sx={{ mt: 3 }}>
+        Overview
+      </Typography>
+      <Button
+        onClick={refreshOverview}
+        disabled={isLoadingOverview}
+        sx={{ mt: 1 }}
+      >
+        {isLoadingOverview ? "Loading..." : "Refresh Overview"}
+      </Button>
+      {overviewError && (
+        <Typography variant="body1" color="error">
+          {overviewError}
+        </Typography>
+      )}
+      {overview && (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Account</TableCell>
+              <TableCell align="right">SOL</TableCell>
+              <TableCell>Tokens</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {overview.accounts.map((account) => {
+              const label = accounts.find(
+                (a) => a.address === account.address
+              )?.label;
+              return (
+                <TableRow key={account.address}>
+                  <TableCell>
+                    {label || shortAddress(account.address)}
+                  </TableCell>
+                  <TableCell align="right">{account.solBalance}</TableCell>
+                  <TableCell>
+                    {Object.entries(account.tokenBalances)
+                      .map(([mint, balance]) => `${balance} ${tokenName(mint)}`)
+                      .join(", ")}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            <TableRow>
+              <TableCell>
+                <b>Total</b>
+              </TableCell>
+              <TableCell align="right">
+                <b>{overview.totalSol}</b>
+              </TableCell>
+              <TableCell>
+                <b>
+                  {Object.entries(overview.totalTokenBalances)
+                    .map(([mint, balance]) => `${balance} ${tokenName(mint)}`)
+                    .join(", ")}
+                </b>
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+}
+
+export default AccountsPanel;
@@ -0,0 +1,197 @@
+import { useState } from "react";
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material";
+import {
+  CLUSTER_LABELS,
+  CLUSTER_NAMES,
+  ClusterName,
+  ClusterNetwork,
+  ClusterSettings,
+  formatHeaders,
+  parseHeaders,
+  validateCustomCluster,
+} from "../libs/cluster";
+
+type ClusterSelectorProps = {
+  settings: ClusterSettings;
+  onChange: (settings: ClusterSettings) => void;
+};
+
+const NETWORKS: ClusterNetwork[] = [
+  "mainnet-beta",
+  "devnet",
+  "testnet",
+  "localnet",
+];
+
+/*
+ * Selects the cluster the wallet talks to. Choosing Custom, or choosing it
+ * again once selected, opens the settings of the custom RPC endpoint.
+ */
+function ClusterSelector({ settings, onChange }: ClusterSelectorProps) {
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [network, setNetwork] = useState<ClusterNetwork>("localnet");
+  const [rpcUrl, setRpcUrl] = useState<string>("");
+  const [fallbackRpcUrls, setFallbackRpcUrls] = useState<string>("");
+  const [wsUrl, setWsUrl] = useState<string>("");
+  const [headers, setHeaders] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+
+  /*
+   * Open the custom cluster settings, filled in with the stored ones.
+   */
+  const editCustomCluster = () => {
+    setNetwork(settings.custom?.network || "localnet");
+    setRpcUrl(settings.custom?.rpcUrl || "");
+    setFallbackRpcUrls((settings.custom?.fallbackRpcUrls || []).join("\n"));
+    setWsUrl(settings.custom?.wsUrl || "");
+    setHeaders(formatHeaders(settings.custom?.headers));
+    setError(null);
+    setIsEditing(true);
+  };
+
+  /*
+   * Check the custom endpoints and switch to the custom cluster.
+   */
+  const saveCustomCluster = () => {
+    try {
+      const custom = validateCustomCluster({
+        network,
+        rpcUrl: rpcUrl.trim(),
+        fallbackRpcUrls: fallbackRpcUrls
+          .split("\n")
+          .map((url) => url.trim())
+          .filter((url) => url),
+        wsUrl: wsUrl.trim() || undefined,
+        headers: parseHeaders(headers),
+      });
+      onChange({ name: "custom", custom });
+      setIsEditing(false);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  /*
+   * Switch to the chosen cluster.
+   */
+  const selectCluster = (event: React.MouseEvent, name: ClusterName | null) => {
+    // Clicking the selected button deselects it, reopen the settings instead
+    if (name === "custom" || (!name && settings.name === "custom")) {
+      editCustomCluster();
+    } else if (name) {
+      onChange({ ...settings, name });
+    }
+  };
+
+  return (
+    <>
+      <ToggleButtonGroup
+        color="secondary"
+        size="small"
+        value={settings.name}
+        exclusive
+        onChange={selectCluster}
+        aria-label="Cluster"
+      >
+        {CLUSTER_NAMES.map((name) => (
+          <ToggleButton key={name} value={name}>
+            {CLUSTER_LABELS[name]}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+
+      <Dialog
+        open={isEditing}
+        onClose={() => setIsEditing(false)}
+        fullWidth
+        maxWidth="sm"
+      >
+        <DialogTitle>Custom Cluster</DialogTitle>
+        <DialogContent>
+          <FormControl fullWidth sx={{ mt: 1 }}>
+            <InputLabel>Network</InputLabel>
+            <Select
+              value={network}
+              label="Network"
+              onChange={(e) => setNetwork(e.target.value as ClusterNetwork)}
+            >
+              {NETWORKS.map((network) => (
+                <MenuItem key={network} value={network}>
+                  {CLUSTER_LABELS[network]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            label="RPC URL"
+            fullWidth
+            value={rpcUrl}
+            onChange={(e) => setRpcUrl(e.target.value)}
+            placeholder="http://127.0.0.1:8899"
+            sx={{ mt: 2 }}
+          />
+          <TextField
+            label="Fallback RPC URLs (optional, one per line)"
+            fullWidth
+            multiline
+            value={fallbackRpcUrls}
+            onChange={(e) => setFallbackRpcUrls(e.target.value)}
+            sx={{ mt: 2 }}
+          />
+          <TextField
+            label="WebSocket URL (optional)"
+            fullWidth
+            value={wsUrl}
+            onChange={(e) => setWsUrl(e.target.value)}
+            placeholder="Derived from the RPC URL"
+            sx={{ mt: 2 }}
+          />
+          <TextField
+            label="HTTP headers (optional, one per line as Name: value)"
+            fullWidth
+            multiline
+            minRows={2}
+            value={headers}
+            onChange={(e) => setHeaders(e.target.value)}
+            sx={{ mt: 2 }}
+            inputProps={{ style: { fontFamily: "monospace" } }}
+          />
+          <Typography variant="body2" sx={{ mt: 1 }}>
+            The settings, headers included, are stored in this browser.
+          </Typography>
+          {error && (
+            <Typography variant="body1" color="error">
+              {error}
+            </Typography>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setIsEditing(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            color="primary"
+            onClick={saveCustomCluster}
+          >
+            Use Custom Cluster
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
+
+export default ClusterSelector;
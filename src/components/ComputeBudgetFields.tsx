@@ -0,0 +1,151 @@
+import { useState } from "react";
+import {
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+} from "@mui/material";
+import {
+  ComputeBudgetSettings,
+  MAX_COMPUTE_UNIT_LIMIT,
+  MAX_COMPUTE_UNIT_PRICE,
+} from "../libs/compute-budget";
+
+type ComputeBudgetFieldsProps = {
+  value: ComputeBudgetSettings;
+  onChange: (value: ComputeBudgetSettings) => void;
+};
+
+const DEFAULT_UNIT_LIMIT = 200000;
+
+/*
+ * Parses a whole number typed in a field, clamped to min..max, or returns
+ * null while the field is empty or not a number.
+ */
+const parseSetting = (input: string, min: number, max: number) => {
+  const parsed = Math.floor(Number(input));
+  return input.trim() === "" || isNaN(parsed)
+    ? null
+    : Math.min(max, Math.max(min, parsed));
+};
+
+type SettingFieldProps = {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+};
+
+/*
+ * Field for a manual setting. The typed text is kept as a draft, so the field
+ * can be cleared to type another number; the setting keeps its last valid
+ * value, which the field shows again when it loses focus.
+ */
+function SettingField({ label, value, min, max, onChange }: SettingFieldProps) {
+  const [draft, setDraft] = useState(String(value));
+
+  return (
+    <TextField
+      label={label}
+      type="number"
+      fullWidth
+      value={draft}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const parsed = parseSetting(e.target.value, min, max);
+        if (parsed !== null) {
+          onChange(parsed);
+        }
+      }}
+      onBlur={() => setDraft(String(value))}
+      inputProps={{ min, max, step: 1 }}
+    />
+  );
+}
+
+const modeOf = (setting: number | "auto" | undefined) =>
+  setting === undefined ? "off" : setting === "auto" ? "auto" : "manual";
+
+/*
+ * Priority fee and compute unit limit settings of a send form. Either can be
+ * left to the network default, resolved automatically when the transaction
+ * is built, or set by hand.
+ */
+function ComputeBudgetFields({ value, onChange }: ComputeBudgetFieldsProps) {
+  const priceMode = modeOf(value.unitPrice);
+  const limitMode = modeOf(value.unitLimit);
+
+  return (
+    <>
+      <Stack direction="row" spacing={2} sx={{ mt: 2 }}>
+        <FormControl sx={{ minWidth: 180 }}>
+          <InputLabel>Priority Fee</InputLabel>
+          <Select
+            value={priceMode}
+            label="Priority Fee"
+            onChange={(e) => {
+              const mode = e.target.value;
+              onChange({
+                ...value,
+                unitPrice:
+                  mode === "off" ? undefined : mode === "auto" ? "auto" : 0,
+              });
+            }}
+          >
+            <MenuItem value="off">None</MenuItem>
+            <MenuItem value="auto">Auto (recent fees)</MenuItem>
+            <MenuItem value="manual">Manual</MenuItem>
+          </Select>
+        </FormControl>
+        {priceMode === "manual" && (
+          <SettingField
+            label="Micro-lamports per Compute Unit"
+            value={value.unitPrice as number}
+            min={0}
+            max={MAX_COMPUTE_UNIT_PRICE}
+            onChange={(unitPrice) => onChange({ ...value, unitPrice })}
+          />
+        )}
+      </Stack>
+      <Stack direction="row" spacing={2} sx={{ mt: 2 }}>
+        <FormControl sx={{ minWidth: 180 }}>
+          <InputLabel>Compute Unit Limit</InputLabel>
+          <Select
+            value={limitMode}
+            label="Compute Unit Limit"
+            onChange={(e) => {
+              const mode = e.target.value;
+              onChange({
+                ...value,
+                unitLimit:
+                  mode === "off"
+                    ? undefined
+                    : mode === "auto"
+                    ? "auto"
+                    : DEFAULT_UNIT_LIMIT,
+              });
+            }}
+          >
+            <MenuItem value="off">Default</MenuItem>
+            <MenuItem value="auto">Auto (simulate)</MenuItem>
+            <MenuItem value="manual">Manual</MenuItem>
+          </Select>
+        </FormControl>
+        {limitMode === "manual" && (
+          <SettingField
+            label="Compute Units"
+            value={value.unitLimit as number}
+            min={1}
+            max={MAX_COMPUTE_UNIT_LIMIT}
+            onChange={(unitLimit) => onChange({ ...value, unitLimit })}
+          />
+        )}
+      </Stack>
+    </>
+  );
+}
+
+export default ComputeBudgetFields;
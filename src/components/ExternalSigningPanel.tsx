@@ -0,0 +1,231 @@
+import { useEffect, useRef, useState } from "react";
+import { Box, Button, TextField, Typography } from "@mui/material";
+import { Transaction } from "@solana/web3.js";
+import {
+  decodeExternalTransaction,
+  ExternalTransaction,
+  isFullySigned,
+  sendExternalTransaction,
+  signExternalTransaction,
+} from "../libs/external";
+import {
+  DecodedInstruction,
+  decodeTransactionInstructions,
+} from "../libs/instructions";
+import { TransactionState, trackTransaction } from "../libs/confirmation";
+import InstructionList from "./InstructionList";
+import TransactionProgress from "./TransactionProgress";
+import { Cluster } from "../libs/cluster";
+
+type ExternalSigningPanelProps = {
+  signerAddress: string;
+  secretKey: Uint8Array;
+  cluster: Cluster;
+};
+
+/*
+ * Signs transactions built outside the wallet: paste a serialized legacy or
+ * v0 transaction, review its instructions and signers, sign it with the
+ * active account, then copy it on to the next signer or broadcast it.
+ */
+function ExternalSigningPanel({
+  signerAddress,
+  secretKey,
+  cluster,
+}: ExternalSigningPanelProps) {
+  const [serialized, setSerialized] = useState<string>("");
+  const [decoded, setDecoded] = useState<
+    (ExternalTransaction & { instructions: DecodedInstruction[] }) | null
+  >(null);
+  const [signedTransaction, setSignedTransaction] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+  const [txState, setTxState] = useState<TransactionState | null>(null);
+  // Aborts the tracking of the broadcast transaction
+  const tracking = useRef<AbortController | null>(null);
+
+  useEffect(() => () => tracking.current?.abort(), []);
+
+  /*
+   * Decode the pasted transaction for review before signing.
+   */
+  const decodeTransaction = async (value: string) => {
+    setSerialized(value);
+    setSignedTransaction("");
+    setError(null);
+    setTxState(null);
+    setDecoded(null);
+    if (!value.trim()) {
+      return;
+    }
+
+    try {
+      const external = await decodeExternalTransaction(value);
+      setDecoded({
+        ...external,
+        instructions: decodeTransactionInstructions(external.transaction),
+      });
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  /*
+   * Sign with the active account and export the signed transaction.
+   */
+  const signTransaction = async () => {
+    if (!decoded) {
+      return;
+    }
+
+    try {
+      const signed = await signExternalTransaction(
+        secretKey,
+        signerAddress,
+        serialized
+      );
+      setSignedTransaction(signed.serialized);
+      setDecoded({ ...decoded, ...signed });
+      setError(null);
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message);
+    }
+  };
+
+  /*
+   * Broadcast the fully signed transaction and track it.
+   */
+  const broadcastTransaction = async () => {
+    if (!decoded) {
+      return;
+    }
+
+    try {
+      await sendExternalTransaction(decoded.transaction, cluster);
+      setError(null);
+    } catch (e: any) {
+      console.error(e);
+      setTxState(null);
+      setError(e.message);
+      return;
+    }
+
+    tracking.current?.abort();
+    const controller = new AbortController();
+    tracking.current = controller;
+    try {
+      await trackTransaction(
+        decoded.transaction,
+        cluster,
+        setTxState,
+        undefined,
+        controller.signal
+      );
+    } catch (e: any) {
+      if (!controller.signal.aborted) {
+        console.error(e);
+        setError(`Could not track the transaction: ${e.message}`);
+      }
+    }
+  };
+
+  const walletSigner = decoded?.signers.find(
+    (signer) => signer.address === signerAddress
+  );
+
+  return (
+    <Box sx={{ width: "100%" }}>
+      <Typography variant="h5" sx={{ mt: 4 }}>
+        Sign External Transaction
+      </Typography>
+      <TextField
+        label="Serialized Transaction (base64 or base58)"
+        fullWidth
+        multiline
+        value={serialized}
+        onChange={(e) => decodeTransaction(e.target.value)}
+        sx={{ mt: 2 }}
+        inputProps={{ style: { fontFamily: "monospace" } }}
+      />
+
+      {decoded && (
+        <>
+          <Typography variant="body2" sx={{ mt: 2 }}>
+            {decoded.transaction instanceof Transaction
+              ? "Legacy"
+              : "Version 0"}{" "}
+            transaction, {decoded.encoding} encoded
+          </Typography>
+          <Typography variant="body2" sx={{ wordBreak: "break-all" }}>
+            Blockhash:{" "}
+            {decoded.transaction instanceof Transaction
+              ? decoded.transaction.recentBlockhash
+              : decoded.transaction.message.recentBlockhash}
+          </Typography>
+
+          <Typography variant="h6" sx={{ mt: 2 }}>
+            Signers
+          </Typography>
+          {decoded.signers.map((signer) => (
+            <Typography
+              key={signer.address}
+              variant="body2"
+              color={signer.isValid === false ? "error" : undefined}
+              sx={{ wordBreak: "break-all" }}
+            >
+              {signer.address}
+              {signer.isFeePayer ? " (fee payer)" : ""}
+              {signer.address === signerAddress ? " (this wallet)" : ""}:{" "}
+              {signer.isValid === null
+                ? "awaiting signature"
+                : signer.isValid
+                ? "signed"
+                : "invalid signature"}
+            </Typography>
+          ))}
+
+          <Typography variant="h6" sx={{ mt: 2 }}>
+            Instructions
+          </Typography>
+          <InstructionList instructions={decoded.instructions} />
+
+          <Box sx={{ mt: 2 }}>
+            <Button
+              variant="contained"
+              color="primary"
+              onClick={signTransaction}
+              disabled={!walletSigner}
+            >
+              {walletSigner ? "Sign" : "This wallet is not a signer"}
+            </Button>
+            <Button
+              onClick={broadcastTransaction}
+              disabled={!isFullySigned(decoded.signers)}
+            >
+              Broadcast
+            </Button>
+          </Box>
+        </>
+      )}
+
+      {error && (
+        <Typography variant="body1" color="error">
+          {error}
+        </Typography>
+      )}
+      {signedTransaction && (
+        <TextField
+          label={`Signed Transaction (${decoded?.encoding})`}
+          fullWidth
+          multiline
+          value={signedTransaction}
+          sx={{ mt: 2 }}
+          inputProps={{ readOnly: true, style: { fontFamily: "monospace" } }}
+        />
+      )}
+      {txState && <TransactionProgress state={txState} cluster={cluster} />}
+    </Box>
+  );
+}
+
+export default ExternalSigningPanel;
@@ -0,0 +1,208 @@
+import { useCallback, useEffect, useState } from "react";
+import { Box, Button, Link, TextField, Typography } from "@mui/material";
+import {
+  getTransactionHistory,
+  HistoryEntry,
+  HistoryPage,
+  TransferDirection,
+} from "../libs/history";
+import { formatAmount, SOL_DECIMALS } from "../libs/amounts";
+import { Cluster, getExplorerUrl } from "../libs/cluster";
+
+type HistoryPanelProps = {
+  address: string;
+  cluster: Cluster;
+};
+
+const DIRECTION_LABELS: { [key in TransferDirection]: string } = {
+  incoming: "Received",
+  outgoing: "Sent",
+  swap: "Exchanged",
+  none: "No transfer",
+};
+
+const shorten = (address: string) =>
+  `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+/*
+ * Formats a balance change with its sign, e.g. "+1.5" or "-0.25".
+ */
+const formatChange = (amount: bigint, decimals: number) =>
+  `${amount > BigInt(0) ? "+" : ""}${formatAmount(amount, decimals)}`;
+
+/*
+ * Lists the transactions of the active address, newest first, with what was
+ * sent or received, to or from whom, and the fee paid. Can be narrowed to
+ * the transactions of one token.
+ */
+function HistoryPanel({ address, cluster }: HistoryPanelProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [tokens, setTokens] = useState<HistoryPage["tokens"]>({});
+  const [before, setBefore] = useState<string | null>(null);
+  const [mintInput, setMintInput] = useState<string>("");
+  const [mint, setMint] = useState<string>("");
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /*
+   * Fetch a page of history, from the newest transaction or after the last
+   * page loaded.
+   */
+  const loadPage = useCallback(
+    async (from?: string) => {
+      setIsLoading(true);
+      try {
+        const page = await getTransactionHistory(address, cluster, {
+          before: from,
+          mint: mint || undefined,
+        });
+        setEntries((entries) =>
+          from ? [...entries, ...page.entries] : page.entries
+        );
+        setTokens((tokens) => ({ ...tokens, ...page.tokens }));
+        setBefore(page.before);
+        setError(null);
+      } catch (e: any) {
+        console.error(e);
+        setError(e.message);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [address, cluster, mint]
+  );
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  const tokenName = (mint: string) =>
+    tokens[mint]?.symbol || tokens[mint]?.name || shorten(mint);
+
+  return (
+    <Box sx={{ width: "100%" }}>
+      <Typography variant="h5" sx={{ mt: 4 }}>
+        Transaction History
+      </Typography>
+      <TextField
+        label="Filter by token mint"
+        fullWidth
+        value={mintInput}
+        onChange={(e) => setMintInput(e.target.value)}
+        sx={{ mt: 2 }}
+      />
+      <Box sx={{ mt: 1 }}>
+        <Button
+          onClick={() => setMint(mintInput.trim())}
+          disabled={isLoading || mintInput.trim() === mint}
+        >
+          Filter
+        </Button>
+        {mint && (
+          <Button
+            onClick={() => {
+              setMintInput("");
+              setMint("");
+            }}
+          >
+            Show All
+          </Button>
+        )}
+        <Button onClick={() => loadPage()} disabled={isLoading}>
+          {isLoading ? "Loading..." : "Refresh"}
+        </Button>
+      </Box>
+      {error && (
+        <Typography variant="body1" color="error">
+          {error}
+        </Typography>
+      )}
+
+      {!isLoading && !error && entries.length === 0 && (
+        <Typography variant="body1" sx={{ mt: 2 }}>
+          No transactions found.
+        </Typography>
+      )}
+      {entries.map((entry) => (
+        <Box
+          key={entry.signature}
+          sx={{
+            mt: 1,
+            p: 1,
+            border: 1,
+            borderColor: "divider",
+            borderRadius: 1,
+          }}
+        >
+          <Typography variant="subtitle2">
+            {DIRECTION_LABELS[entry.direction]}
+            {entry.blockTime
+              ? ` on ${new Date(entry.blockTime * 1000).toLocaleString()}`
+              : ""}
+          </Typography>
+          <Typography
+            variant="body2"
+            color={entry.status === "failed" ? "error" : undefined}
+          >
+            Status: {entry.status === "failed" ? "Failed" : "Succeeded"}
+            {entry.error ? ` - ${entry.error}` : ""}
+          </Typography>
+          {entry.solChange !== 0 && (
+            <Typography variant="body2" sx={{ wordBreak: "break-all" }}>
+              {formatChange(BigInt(entry.solChange), SOL_DECIMALS)} SOL
+              {entry.solCounterparties.length > 0 &&
+                ` ${
+                  entry.solChange > 0 ? "from" : "to"
+                } ${entry.solCounterparties.map(shorten).join(", ")}`}
+            </Typography>
+          )}
+          {entry.tokenTransfers.map((transfer) => (
+            <Typography
+              key={transfer.mint}
+              variant="body2"
+              sx={{ wordBreak: "break-all" }}
+            >
+              {formatChange(transfer.amount, transfer.decimals)}{" "}
+              {tokenName(transfer.mint)}
+              {transfer.counterparties.length > 0 &&
+                ` ${
+                  transfer.amount > BigInt(0) ? "from" : "to"
+                } ${transfer.counterparties.map(shorten).join(", ")}`}
+            </Typography>
+          ))}
+          {entry.fee !== null && entry.feePayer && (
+            <Typography variant="body2">
+              Fee: {formatAmount(BigInt(entry.fee), SOL_DECIMALS)} SOL
+              {entry.feePayer !== address &&
+                ` (paid by ${shorten(entry.feePayer)})`}
+            </Typography>
+          )}
+          {entry.memo && (
+            <Typography variant="body2" sx={{ wordBreak: "break-all" }}>
+              Memo: {entry.memo}
+            </Typography>
+          )}
+          <Link
+            variant="body2"
+            href={getExplorerUrl(cluster, `tx/${entry.signature}`)}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            {shorten(entry.signature)}
+          </Link>
+        </Box>
+      ))}
+      {before && (
+        <Button
+          onClick={() => loadPage(before)}
+          disabled={isLoading}
+          sx={{ mt: 1 }}
+        >
+          {isLoading ? "Loading..." : "Load More"}
+        </Button>
+      )}
+    </Box>
+  );
+}
+
+export default HistoryPanel;
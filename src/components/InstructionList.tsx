@@ -0,0 +1,52 @@
+import { Box, Typography } from "@mui/material";
+import { DecodedInstruction } from "../libs/instructions";
+
+type InstructionListProps = {
+  instructions: DecodedInstruction[];
+};
+
+/*
+ * Lists decoded transaction instructions so the user can see what they are
+ * about to sign.
+ */
+function InstructionList({ instructions }: InstructionListProps) {
+  return (
+    <Box sx={{ width: "100%" }}>
+      {instructions.map((instruction, index) => (
+        <Box
+          key={index}
+          sx={{
+            mt: 1,
+            p: 1,
+            border: 1,
+            borderColor: "divider",
+            borderRadius: 1,
+          }}
+        >
+          <Typography variant="subtitle2">
+            {index + 1}. {instruction.program}: {instruction.type}
+          </Typography>
+          {instruction.fields.map((field) => (
+            <Typography
+              key={field.name}
+              variant="body2"
+              sx={{ wordBreak: "break-all" }}
+            >
+              {field.name}: {field.value}
+            </Typography>
+          ))}
+          {instruction.data !== undefined && (
+            <Typography
+              variant="body2"
+              sx={{ wordBreak: "break-all", fontFamily: "monospace" }}
+            >
+              Data: {instruction.data || "(empty)"}
+            </Typography>
+          )}
+        </Box>
+      ))}
+    </Box>
+  );
+}
+
+export default InstructionList;
@@ -0,0 +1,237 @@
+import { useState } from "react";
+import {
+  Box,
+  Button,
+  FormControlLabel,
+  Switch,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { PublicKey } from "@solana/web3.js";
+import { signAsync, verifyAsync } from "../libs/ed25119-scalar";
+import {
+  getOffchainMessageFormat,
+  OFFCHAIN_MESSAGE_FORMATS,
+  OffchainMessage,
+  parseSignature,
+  signOffchainMessage,
+  verifyOffchainMessage,
+} from "../libs/offchain-message";
+
+type MessageSigningPanelProps = {
+  address: string;
+  secretKey: Uint8Array;
+};
+
+/*
+ * Signs and verifies messages in the Solana off-chain message format, with
+ * signing of the raw message bytes kept behind an advanced toggle.
+ */
+function MessageSigningPanel({ address, secretKey }: MessageSigningPanelProps) {
+  const [message, setMessage] = useState<string>("");
+  const [applicationDomain, setApplicationDomain] = useState<string>("");
+  const [isRawSigning, setIsRawSigning] = useState<boolean>(false);
+  const [signature, setSignature] = useState<string>("");
+  const [signerToVerify, setSignerToVerify] = useState<string>(address);
+  const [signatureToVerify, setSignatureToVerify] = useState<string>("");
+  const [verifyResult, setVerifyResult] = useState<boolean | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const resetResults = () => {
+    setSignature("");
+    setVerifyResult(null);
+    setError(null);
+  };
+
+  // Off-chain messages signed here have the wallet as their only signer
+  const offchainMessage = (signer: string): OffchainMessage => ({
+    applicationDomain,
+    signers: [signer],
+    message,
+  });
+
+  let formatDescription = "";
+  if (message && !isRawSigning) {
+    try {
+      const format = getOffchainMessageFormat(message);
+      const length = Buffer.byteLength(message, "utf8");
+      formatDescription = `${OFFCHAIN_MESSAGE_FORMATS[format]}, ${length} bytes`;
+    } catch (e: any) {
+      formatDescription = e.message;
+    }
+  }
+
+  /*
+   * Sign the message, wrapped in the off-chain header unless raw signing is
+   * switched on.
+   */
+  const signMessage = async () => {
+    if (!message) {
+      return;
+    }
+
+    try {
+      if (isRawSigning) {
+        // Sign the UTF-8 bytes of the message
+        const messageBytes = new TextEncoder().encode(message);
+        const rawSignature = await signAsync(messageBytes, secretKey);
+        setSignature(`0x${Buffer.from(rawSignature).toString("hex")}`);
+      } else {
+        setSignature(
+          await signOffchainMessage(
+            secretKey,
+            address,
+            offchainMessage(address)
+          )
+        );
+      }
+      setError(null);
+    } catch (e: any) {
+      console.error(e);
+      setSignature("");
+      setError(e.message);
+    }
+  };
+
+  /*
+   * Verify a base58 or hex signature of the message.
+   */
+  const verifyMessage = async () => {
+    if (!message || !signatureToVerify || !signerToVerify) {
+      return;
+    }
+
+    try {
+      const isValid = isRawSigning
+        ? await verifyAsync(
+            parseSignature(signatureToVerify),
+            new TextEncoder().encode(message),
+            new PublicKey(signerToVerify).toBytes()
+          )
+        : await verifyOffchainMessage(
+            signatureToVerify,
+            signerToVerify,
+            offchainMessage(signerToVerify)
+          );
+      setVerifyResult(isValid);
+      setError(null);
+    } catch (e: any) {
+      console.error(e);
+      setVerifyResult(false);
+      setError(e.message);
+    }
+  };
+
+  return (
+    <Box sx={{ width: "100%" }}>
+      <Typography variant="h5" sx={{ mt: 4 }}>
+        Sign Message
+      </Typography>
+      <TextField
+        label="Message"
+        variant="outlined"
+        fullWidth
+        multiline
+        value={message}
+        onChange={(e) => {
+          setMessage(e.target.value);
+          resetResults();
+        }}
+        helperText={formatDescription}
+        sx={{ mt: 2 }}
+      />
+      {!isRawSigning && (
+        <TextField
+          label="Application Domain (optional, up to 32 bytes)"
+          variant="outlined"
+          fullWidth
+          value={applicationDomain}
+          onChange={(e) => {
+            setApplicationDomain(e.target.value);
+            resetResults();
+          }}
+          sx={{ mt: 2 }}
+        />
+      )}
+      <FormControlLabel
+        control={
+          <Switch
+            checked={isRawSigning}
+            onChange={(e) => {
+              setIsRawSigning(e.target.checked);
+              resetResults();
+            }}
+            color="error"
+          />
+        }
+        label="Raw signing (advanced)"
+        sx={{ mt: 1 }}
+      />
+      {isRawSigning && (
+        <Typography variant="body2" color="error">
+          Raw signing signs the message bytes without the off-chain message
+          header. A crafted message can be a valid transaction, so only use it
+          with applications you trust that require it.
+        </Typography>
+      )}
+      <Box>
+        <Button
+          variant="contained"
+          color={isRawSigning ? "error" : "primary"}
+          onClick={signMessage}
+          sx={{ mt: 2 }}
+        >
+          {isRawSigning ? "Sign Raw Message" : "Sign"}
+        </Button>
+      </Box>
+      {signature && (
+        <Typography variant="body1" sx={{ wordBreak: "break-all" }}>
+          Signature: {signature}
+        </Typography>
+      )}
+
+      <TextField
+        label="Signer Address"
+        variant="outlined"
+        fullWidth
+        value={signerToVerify}
+        onChange={(e) => {
+          setSignerToVerify(e.target.value);
+          setVerifyResult(null);
+        }}
+        sx={{ mt: 2 }}
+      />
+      <TextField
+        label="Signature (base58 or hex)"
+        variant="outlined"
+        fullWidth
+        value={signatureToVerify}
+        onChange={(e) => {
+          setSignatureToVerify(e.target.value);
+          setVerifyResult(null);
+        }}
+        sx={{ mt: 2 }}
+      />
+      <Button
+        variant="contained"
+        color="primary"
+        onClick={verifyMessage}
+        sx={{ mt: 2 }}
+      >
+        Verify
+      </Button>
+      {verifyResult !== null && (
+        <Typography variant="body1" color={verifyResult ? "success" : "error"}>
+          {verifyResult ? "Signature is valid" : "Signature is invalid"}
+        </Typography>
+      )}
+      {error && (
+        <Typography variant="body1" color="error">
+          {error}
+        </Typography>
+      )}
+    </Box>
+  );
+}
+
+export default MessageSigningPanel;
@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Box,
+  Button,
+  FormControlLabel,
+  Switch,
+  Typography,
+} from "@mui/material";
+import {
+  buildCloseNonceAccountTransaction,
+  buildCreateNonceAccountTransaction,
+  getNonceAccountStatus,
+  NonceAccountStatus,
+} from "../libs/solana";
+import { formatAmount, SOL_DECIMALS } from "../libs/amounts";
+import { TransactionState } from "../libs/confirmation";
+import { PendingTransaction } from "./TransactionPreviewDialog";
+import TransactionProgress from "./TransactionProgress";
+import { Cluster } from "../libs/cluster";
+
+type NoncePanelProps = {
+  address: string;
+  cluster: Cluster;
+  useDurableNonce: boolean;
+  onUseDurableNonceChange: (useDurableNonce: boolean) => void;
+  // Hands the transaction to the preview and confirmation flow
+  onSubmit: (pending: PendingTransaction) => Promise<void>;
+};
+
+/*
+ * Shows the durable nonce account of the active address and lets the user
+ * create or close it, and choose whether transfers use it.
+ */
+function NoncePanel({
+  address,
+  cluster,
+  useDurableNonce,
+  onUseDurableNonceChange,
+  onSubmit,
+}: NoncePanelProps) {
+  const [status, setStatus] = useState<NonceAccountStatus | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [txState, setTxState] = useState<TransactionState | null>(null);
+
+  /*
+   * Fetch the nonce account of the address.
+   */
+  const refreshStatus = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setStatus(await getNonceAccountStatus(address, cluster));
+      setError(null);
+    } catch (e: any) {
+      console.error(e);
+      setStatus(null);
+      setError(e.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, cluster]);
+
+  useEffect(() => {
+    refreshStatus();
+  }, [refreshStatus]);
+
+  // Transfers cannot use a nonce account that does not exist
+  useEffect(() => {
+    if (!isLoading && !status && useDurableNonce) {
+      onUseDurableNonceChange(false);
+    }
+  }, [isLoading, status, useDurableNonce, onUseDurableNonceChange]);
+
+  /*
+   * Create or close the nonce account through the confirmation flow.
+   */
+  const submit = async (
+    build: () => Promise<PendingTransaction["transaction"]>
+  ) => {
+    try {
+      const transaction = await build();
+      await onSubmit({
+        transaction,
+        onUpdate: (state) => {
+          setTxState(state);
+          setError(null);
+          if (state.status === "confirmed" || state.status === "finalized") {
+            refreshStatus();
+          }
+        },
+        onError: (message) => {
+          setTxState(null);
+          setError(message);
+        },
+      });
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message);
+    }
+  };
+
+  return (
+    <Box sx={{ width: "100%" }}>
+      <Typography variant="h5" sx={{ mt: 4 }}>
+        Durable Nonce
+      </Typography>
+      <Typography variant="body2" sx={{ mt: 1 }}>
+        Transactions using a durable nonce do not expire after a minute, so they
+        can be signed offline or wait for approval.
+      </Typography>
+
+      {status ? (
+        <>
+          <Typography variant="body1" sx={{ mt: 2, wordBreak: "break-all" }}>
+            Nonce account: {status.address}
+          </Typography>
+          <Typography variant="body1" sx={{ wordBreak: "break-all" }}>
+            Current nonce: {status.nonce}
+          </Typography>
+          <Typography variant="body1" sx={{ wordBreak: "break-all" }}>
+            Authority: {status.authority}
+            {status.authority === address ? " (this wallet)" : ""}
+          </Typography>
+          <Typography variant="body1">
+            Balance: {formatAmount(BigInt(status.lamports), SOL_DECIMALS)} SOL
+          </Typography>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={useDurableNonce}
+                onChange={(e) => onUseDurableNonceChange(e.target.checked)}
+              />
+            }
+            label="Use the durable nonce for transfers"
+            sx={{ mt: 1 }}
+          />
+        </>
+      ) : (
+        !isLoading && (
+          <Typography variant="body1" sx={{ mt: 2 }}>
+            This wallet has no nonce account yet.
+          </Typography>
+        )
+      )}
+
+      <Box sx={{ mt: 1 }}>
+        <Button onClick={refreshStatus} disabled={isLoading}>
+          {isLoading ? "Loading..." : "Refresh"}
+        </Button>
+        {!isLoading && !status && (
+          <Button
+            variant="contained"
+            onClick={() =>
+              submit(() => buildCreateNonceAccountTransaction(address, cluster))
+            }
+          >
+            Create Nonce Account
+          </Button>
+        )}
+        {status && (
+          <Button
+            color="error"
+            onClick={() =>
+              submit(() => buildCloseNonceAccountTransaction(address, cluster))
+            }
+          >
+            Close Nonce Account
+          </Button>
+        )}
+      </Box>
+      {error && (
+        <Typography variant="body1" color="error">
+          {error}
+        </Typography>
+      )}
+      {txState && <TransactionProgress state={txState} cluster={cluster} />}
+    </Box>
+  );
+}
+
+export default NoncePanel;
@@ -0,0 +1,372 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Box,
+  Button,
+  FormControlLabel,
+  Switch,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { QRCodeSVG } from "qrcode.react";
+import { Transaction, VersionedTransaction } from "@solana/web3.js";
+import {
+  buildSolTransferTransaction,
+  buildSPLTransferTransaction,
+  getRequiredSigners,
+  sendSignedTransaction,
+} from "../libs/solana";
+import {
+  addOfflineSignature,
+  deserializeTransaction,
+  serializeTransaction,
+  signTransactionOffline,
+} from "../libs/offline";
+import {
+  DecodedInstruction,
+  decodeTransactionInstructions,
+} from "../libs/instructions";
+import { TransactionState, trackTransaction } from "../libs/confirmation";
+import InstructionList from "./InstructionList";
+import TransactionProgress from "./TransactionProgress";
+import { Cluster } from "../libs/cluster";
+
+type OfflineSigningPanelProps = {
+  // Active account, null when the panel is used without an unlocked key
+  signerAddress: string | null;
+  secretKey: Uint8Array | null;
+  cluster: Cluster;
+};
+
+/*
+ * Read-only, monospace text field for data carried between machines.
+ */
+const ExportField = ({ label, value }: { label: string; value: string }) => (
+  <>
+    <TextField
+      label={label}
+      fullWidth
+      multiline
+      value={value}
+      sx={{ mt: 2 }}
+      inputProps={{ readOnly: true, style: { fontFamily: "monospace" } }}
+    />
+    <Box sx={{ mt: 2, p: 2, bgcolor: "white" }}>
+      <QRCodeSVG value={value} size={256} />
+    </Box>
+  </>
+);
+
+/*
+ * Air-gapped signing: build an unsigned transaction online, review and sign
+ * it on an offline machine holding the key, then bring the signature back
+ * online to broadcast the transaction.
+ */
+function OfflineSigningPanel({
+  signerAddress,
+  secretKey,
+  cluster,
+}: OfflineSigningPanelProps) {
+  // Build (online)
+  const [fromAddress, setFromAddress] = useState<string>(signerAddress || "");
+  const [recipient, setRecipient] = useState<string>("");
+  const [amount, setAmount] = useState<string>("");
+  const [tokenAddress, setTokenAddress] = useState<string>("");
+  const [useDurableNonce, setUseDurableNonce] = useState<boolean>(false);
+  const [builtTransaction, setBuiltTransaction] = useState<string>("");
+  const [buildError, setBuildError] = useState<string | null>(null);
+
+  // Sign (offline)
+  const [transactionToSign, setTransactionToSign] = useState<string>("");
+  const [decoded, setDecoded] = useState<{
+    feePayer: string;
+    blockhash: string;
+    instructions: DecodedInstruction[];
+  } | null>(null);
+  const [signature, setSignature] = useState<string>("");
+  const [signError, setSignError] = useState<string | null>(null);
+
+  // Broadcast (online)
+  const [transactionToSend, setTransactionToSend] = useState<string>("");
+  const [signatureToAdd, setSignatureToAdd] = useState<string>("");
+  const [sendError, setSendError] = useState<string | null>(null);
+  const [sendState, setSendState] = useState<TransactionState | null>(null);
+  // Aborts the tracking of the broadcast transaction
+  const tracking = useRef<AbortController | null>(null);
+
+  useEffect(() => () => tracking.current?.abort(), []);
+
+  /*
+   * Build the unsigned SOL or SPL transfer and export it.
+   */
+  const buildTransaction = async () => {
+    try {
+      const transaction = tokenAddress
+        ? await buildSPLTransferTransaction(
+            fromAddress,
+            recipient,
+            amount,
+            tokenAddress,
+            cluster,
+            undefined,
+            useDurableNonce
+          )
+        : await buildSolTransferTransaction(
+            fromAddress,
+            recipient,
+            amount,
+            cluster,
+            undefined,
+            useDurableNonce
+          );
+      const serialized = serializeTransaction(transaction);
+      setBuiltTransaction(serialized);
+      setTransactionToSend(serialized);
+      setBuildError(null);
+    } catch (e: any) {
+      console.error(e);
+      setBuiltTransaction("");
+      setBuildError(e.message);
+    }
+  };
+
+  /*
+   * Decode the imported transaction for review before signing.
+   */
+  const decodeTransaction = (serialized: string) => {
+    setTransactionToSign(serialized);
+    setSignature("");
+    setSignError(null);
+    setDecoded(null);
+    if (!serialized.trim()) {
+      return;
+    }
+
+    try {
+      const transaction = deserializeTransaction(serialized);
+      setDecoded({
+        feePayer: getRequiredSigners(transaction)[0].toBase58(),
+        blockhash:
+          (transaction instanceof Transaction
+            ? transaction.recentBlockhash
+            : transaction.message.recentBlockhash) || "",
+        instructions: decodeTransactionInstructions(transaction),
+      });
+    } catch (e: any) {
+      setSignError(e.message);
+    }
+  };
+
+  /*
+   * Sign the reviewed transaction and export the signature.
+   */
+  const signTransaction = async () => {
+    if (!secretKey || !signerAddress || !decoded) {
+      return;
+    }
+
+    try {
+      const signed = await signTransactionOffline(
+        secretKey,
+        signerAddress,
+        transactionToSign
+      );
+      setSignature(signed.signature);
+      // Show the instructions exactly as signed
+      setDecoded({ ...decoded, instructions: signed.instructions });
+      setSignError(null);
+    } catch (e: any) {
+      console.error(e);
+      setSignError(e.message);
+    }
+  };
+
+  /*
+   * Add the offline signature and broadcast, tracking the transaction.
+   */
+  const broadcastTransaction = async () => {
+    let transaction: Transaction | VersionedTransaction;
+    try {
+      transaction = deserializeTransaction(transactionToSend);
+      // Transactions built in step 1 are signed by their fee payer
+      const feePayer = getRequiredSigners(transaction)[0];
+      await addOfflineSignature(
+        transaction,
+        feePayer.toBase58(),
+        signatureToAdd
+      );
+      await sendSignedTransaction(transaction, cluster);
+      setSendError(null);
+    } catch (e: any) {
+      console.error(e);
+      setSendState(null);
+      setSendError(e.message);
+      return;
+    }
+
+    tracking.current?.abort();
+    const controller = new AbortController();
+    tracking.current = controller;
+    try {
+      await trackTransaction(
+        transaction,
+        cluster,
+        setSendState,
+        undefined,
+        controller.signal
+      );
+    } catch (e: any) {
+      if (!controller.signal.aborted) {
+        console.error(e);
+        setSendError(`Could not track the transaction: ${e.message}`);
+      }
+    }
+  };
+
+  return (
+    <Box sx={{ width: "100%" }}>
+      <Typography variant="h5" sx={{ mt: 4 }}>
+        Offline Signing
+      </Typography>
+      <Typography variant="body2" sx={{ mt: 1 }}>
+        Unless it uses a durable nonce, the transaction must be signed and
+        broadcast before its blockhash expires, about a minute after it is
+        built.
+      </Typography>
+
+      {/* Step 1: build on the online machine */}
+      <Typography variant="h6" sx={{ mt: 3 }}>
+        1. Build Unsigned Transaction (online)
+      </Typography>
+      <TextField
+        label="From Address"
+        fullWidth
+        value={fromAddress}
+        onChange={(e) => setFromAddress(e.target.value)}
+        sx={{ mt: 2 }}
+      />
+      <TextField
+        label="Recipient Address"
+        fullWidth
+        value={recipient}
+        onChange={(e) => setRecipient(e.target.value)}
+        sx={{ mt: 2 }}
+      />
+      <TextField
+        label="Amount"
+        fullWidth
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        sx={{ mt: 2 }}
+        inputProps={{ inputMode: "decimal" }}
+      />
+      <TextField
+        label="Token Mint Address (empty for SOL)"
+        fullWidth
+        value={tokenAddress}
+        onChange={(e) => setTokenAddress(e.target.value)}
+        sx={{ mt: 2 }}
+      />
+      <FormControlLabel
+        control={
+          <Switch
+            checked={useDurableNonce}
+            onChange={(e) => setUseDurableNonce(e.target.checked)}
+          />
+        }
+        label="Use the sender's durable nonce (does not expire)"
+        sx={{ mt: 1 }}
+      />
+      <Button
+        variant="contained"
+        color="primary"
+        onClick={buildTransaction}
+        sx={{ mt: 2 }}
+      >
+        Build
+      </Button>
+      {buildError && (
+        <Typography variant="body1" color="error">
+          {buildError}
+        </Typography>
+      )}
+      {builtTransaction && (
+        <ExportField label="Unsigned Transaction" value={builtTransaction} />
+      )}
+
+      {/* Step 2: review and sign on the offline machine */}
+      <Typography variant="h6" sx={{ mt: 3 }}>
+        2. Sign (offline)
+      </Typography>
+      <TextField
+        label="Unsigned Transaction"
+        fullWidth
+        multiline
+        value={transactionToSign}
+        onChange={(e) => decodeTransaction(e.target.value)}
+        sx={{ mt: 2 }}
+      />
+      {decoded && (
+        <>
+          <Typography variant="body2" sx={{ mt: 2, wordBreak: "break-all" }}>
+            Fee payer: {decoded.feePayer}
+          </Typography>
+          <Typography variant="body2" sx={{ wordBreak: "break-all" }}>
+            Blockhash: {decoded.blockhash}
+          </Typography>
+          <InstructionList instructions={decoded.instructions} />
+          <Button
+            variant="contained"
+            color="primary"
+            onClick={signTransaction}
+            disabled={!secretKey}
+            sx={{ mt: 2 }}
+          >
+            {secretKey ? "Sign" : "Unlock a wallet to sign"}
+          </Button>
+        </>
+      )}
+      {signError && (
+        <Typography variant="body1" color="error">
+          {signError}
+        </Typography>
+      )}
+      {signature && <ExportField label="Signature" value={signature} />}
+
+      {/* Step 3: broadcast on the online machine */}
+      <Typography variant="h6" sx={{ mt: 3 }}>
+        3. Broadcast (online)
+      </Typography>
+      <TextField
+        label="Unsigned Transaction"
+        fullWidth
+        multiline
+        value={transactionToSend}
+        onChange={(e) => setTransactionToSend(e.target.value)}
+        sx={{ mt: 2 }}
+      />
+      <TextField
+        label="Signature"
+        fullWidth
+        value={signatureToAdd}
+        onChange={(e) => setSignatureToAdd(e.target.value)}
+        sx={{ mt: 2 }}
+      />
+      <Button
+        variant="contained"
+        color="primary"
+        onClick={broadcastTransaction}
+        sx={{ mt: 2 }}
+      >
+        Broadcast
+      </Button>
+      {sendError && (
+        <Typography variant="body1" color="error">
+          {sendError}
+        </Typography>
+      )}
+      {sendState && <TransactionProgress state={sendState} cluster={cluster} />}
+    </Box>
+  );
+}
+
+export default OfflineSigningPanel;
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { Box, Button, TextField, Typography } from "@mui/material";
+import {
+  createSignInMessage,
+  parseSignInInput,
+  serializeSignInOutput,
+  signIn,
+  validateSignInInput,
+} from "../libs/siws";
+import { Cluster, getChainId } from "../libs/cluster";
+
+type SignInPanelProps = {
+  address: string;
+  secretKey: Uint8Array;
+  cluster: Cluster;
+};
+
+/*
+ * Signs Sign-In With Solana requests: paste the SIWS input object of a
+ * service, review the rendered sign-in message, then sign it and copy the
+ * output object back to the service.
+ */
+function SignInPanel({ address, secretKey, cluster }: SignInPanelProps) {
+  const [domain, setDomain] = useState<string>("");
+  const [inputJson, setInputJson] = useState<string>("");
+  const [output, setOutput] = useState<string>("");
+  const [signError, setSignError] = useState<string | null>(null);
+
+  const options = {
+    domain: domain.trim() || undefined,
+    chainId: getChainId(cluster),
+  };
+
+  // Render the message as soon as the input is complete and valid
+  let message = "";
+  let inputError: string | null = null;
+  if (inputJson.trim()) {
+    try {
+      message = createSignInMessage(
+        validateSignInInput(parseSignInInput(inputJson), address, options)
+      );
+    } catch (e: any) {
+      inputError = e.message;
+    }
+  }
+
+  /*
+   * Sign the sign-in message and export the SIWS output object.
+   */
+  const signInMessage = async () => {
+    try {
+      const result = await signIn(
+        secretKey,
+        address,
+        parseSignInInput(inputJson),
+        options
+      );
+      setOutput(serializeSignInOutput(result));
+      setSignError(null);
+    } catch (e: any) {
+      console.error(e);
+      setOutput("");
+      setSignError(e.message);
+    }
+  };
+
+  return (
+    <Box sx={{ width: "100%" }}>
+      <Typography variant="h5" sx={{ mt: 4 }}>
+        Sign In With Solana
+      </Typography>
+      <TextField
+        label="Domain of the service you are signing in to"
+        fullWidth
+        value={domain}
+        onChange={(e) => {
+          setDomain(e.target.value);
+          setOutput("");
+        }}
+        sx={{ mt: 2 }}
+      />
+      <TextField
+        label="Sign-In Input (JSON)"
+        fullWidth
+        multiline
+        minRows={3}
+        value={inputJson}
+        onChange={(e) => {
+          setInputJson(e.target.value);
+          setOutput("");
+          setSignError(null);
+        }}
+        sx={{ mt: 2 }}
+        inputProps={{ style: { fontFamily: "monospace" } }}
+      />
+      {inputError && (
+        <Typography variant="body1" color="error">
+          {inputError}
+        </Typography>
+      )}
+      {message && (
+        <>
+          <Typography
+            component="pre"
+            variant="body2"
+            sx={{
+              mt: 2,
+              p: 1,
+              border: 1,
+              borderColor: "divider",
+              borderRadius: 1,
+              whiteSpace: "pre-wrap",
+              wordBreak: "break-all",
+            }}
+          >
+            {message}
+          </Typography>
+          <Button
+            variant="contained"
+            color="primary"
+            onClick={signInMessage}
+            disabled={!domain.trim()}
+            sx={{ mt: 2 }}
+          >
+            {domain.trim() ? "Sign In" : "Enter the service domain to sign"}
+          </Button>
+        </>
+      )}
+      {signError && (
+        <Typography variant="body1" color="error">
+          {signError}
+        </Typography>
+      )}
+      {output && (
+        <TextField
+          label="Sign-In Output"
+          fullWidth
+          multiline
+          value={output}
+          sx={{ mt: 2 }}
+          inputProps={{ readOnly: true, style: { fontFamily: "monospace" } }}
+        />
+      )}
+    </Box>
+  );
+}
+
+export default SignInPanel;
@@ -0,0 +1,276 @@
+import { useEffect, useRef, useState } from "react";
+import { Box, Button, TextField, Typography } from "@mui/material";
+import {
+  executeSweep,
+  planSweep,
+  SweepPlan,
+  SweepStep,
+  SweepToken,
+} from "../libs/sweep";
+import { BatchProgress, BatchStatus } from "../libs/batch";
+import { getSPLTokenInfo } from "../libs/solana";
+import { formatAmount } from "../libs/amounts";
+import { Cluster } from "../libs/cluster";
+import TransactionProgress from "./TransactionProgress";
+
+type SweepPanelProps = {
+  address: string;
+  secretKey: Uint8Array;
+  cluster: Cluster;
+  // Called once the sweep stops, to refresh the balances
+  onComplete: () => void;
+};
+
+const STATUS_LABELS: { [key in BatchStatus]: string } = {
+  pending: "Waiting",
+  sending: "In progress",
+  done: "Done",
+  skipped: "Skipped",
+  failed: "Failed",
+};
+
+const shorten = (address: string) =>
+  `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+/*
+ * Moves every asset of the active address to another address: all token
+ * balances, the rent of the emptied token accounts and finally the SOL.
+ * The plan is shown first; once confirmed, its transactions are sent one
+ * after the other with the progress of each.
+ */
+function SweepPanel({
+  address,
+  secretKey,
+  cluster,
+  onComplete,
+}: SweepPanelProps) {
+  const [destination, setDestination] = useState<string>("");
+  const [plan, setPlan] = useState<SweepPlan | null>(null);
+  const [symbols, setSymbols] = useState<{ [mint: string]: string }>({});
+  const [progress, setProgress] = useState<BatchProgress[]>([]);
+  const [isPlanning, setIsPlanning] = useState<boolean>(false);
+  const [isSweeping, setIsSweeping] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  // Stops the sweep when the wallet locks or the account changes
+  const sweeping = useRef<AbortController | null>(null);
+
+  useEffect(() => () => sweeping.current?.abort(), []);
+
+  /*
+   * Plan the sweep to the destination, and look up the token symbols.
+   */
+  const reviewSweep = async () => {
+    setIsPlanning(true);
+    setPlan(null);
+    setProgress([]);
+    setError(null);
+    try {
+      const plan = await planSweep(cluster, address, destination.trim());
+      setPlan(plan);
+      setProgress(
+        plan.steps.map(() => ({
+          status: "pending",
+          transaction: null,
+          error: null,
+        }))
+      );
+
+      const mints = Array.from(
+        new Set(
+          [
+            ...plan.steps.flatMap((step) =>
+              step.kind === "tokens" ? step.tokens : []
+            ),
+            ...plan.skipped,
+          ].map((token) => token.account.mint)
+        )
+      );
+      const infos = await Promise.allSettled(
+        mints.map((mint) => getSPLTokenInfo(mint, cluster))
+      );
+      const symbols: { [mint: string]: string } = {};
+      infos.forEach((info, i) => {
+        if (info.status === "fulfilled" && info.value.symbol) {
+          symbols[mints[i]] = info.value.symbol;
+        }
+      });
+      setSymbols(symbols);
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message);
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  /*
+   * Send the planned transactions, updating the progress of each step.
+   */
+  const sweep = async () => {
+    if (!plan) {
+      return;
+    }
+    const controller = new AbortController();
+    sweeping.current = controller;
+    setIsSweeping(true);
+    try {
+      await executeSweep(
+        secretKey,
+        plan,
+        cluster,
+        (step, stepProgress) =>
+          setProgress((progress) =>
+            progress.map((current, i) => (i === step ? stepProgress : current))
+          ),
+        controller.signal
+      );
+    } finally {
+      setIsSweeping(false);
+      onComplete();
+    }
+  };
+
+  const describeToken = (token: SweepToken) => {
+    const { account } = token;
+    const name = symbols[account.mint] || shorten(account.mint);
+    if (token.action === "close") {
+      return account.isNative
+        ? `Unwrap ${formatAmount(account.amount, account.decimals)} SOL`
+        : `Close the empty ${name} account`;
+    }
+    if (account.amount === BigInt(0)) {
+      return `Empty ${name} account ${shorten(account.address)}`;
+    }
+    const amount = `${formatAmount(account.amount, account.decimals)} ${name}`;
+    if (token.action === "skip") {
+      return `${amount} left in ${shorten(account.address)}`;
+    }
+    return `Send ${amount}${token.close ? " and close the account" : ""}`;
+  };
+
+  const describeStep = (step: SweepStep, index: number) =>
+    step.kind === "sol"
+      ? "Send the remaining SOL, minus the network fee"
+      : `Transaction ${index + 1}: ${step.tokens.length} token account${
+          step.tokens.length === 1 ? "" : "s"
+        }`;
+
+  const isStarted = progress.some((step) => step.status !== "pending");
+
+  return (
+    <Box sx={{ width: "100%" }}>
+      <Typography variant="h5" sx={{ mt: 4 }}>
+        Sweep All Assets
+      </Typography>
+      <Typography variant="body2" sx={{ mt: 1 }}>
+        Moves every token and all SOL of this address to another address,
+        closing the emptied token accounts to reclaim their rent.
+      </Typography>
+      <TextField
+        label="Destination Address"
+        fullWidth
+        value={destination}
+        onChange={(e) => {
+          setDestination(e.target.value);
+          if (!isSweeping) {
+            setPlan(null);
+          }
+        }}
+        disabled={isSweeping}
+        sx={{ mt: 2 }}
+      />
+      <Button
+        onClick={reviewSweep}
+        disabled={!destination.trim() || isPlanning || isSweeping}
+        sx={{ mt: 1 }}
+      >
+        {isPlanning ? "Planning..." : "Review Sweep"}
+      </Button>
+      {error && (
+        <Typography variant="body1" color="error">
+          {error}
+        </Typography>
+      )}
+
+      {plan && (
+        <>
+          {plan.steps.map((step, i) => {
+            const { status, transaction, error: stepError } = progress[i];
+            return (
+              <Box
+                key={i}
+                sx={{
+                  mt: 1,
+                  p: 1,
+                  border: 1,
+                  borderColor: "divider",
+                  borderRadius: 1,
+                }}
+              >
+                <Typography variant="subtitle2">
+                  {describeStep(step, i)} - {STATUS_LABELS[status]}
+                </Typography>
+                {step.kind === "tokens" &&
+                  step.tokens.map((token) => (
+                    <Typography
+                      key={token.account.address}
+                      variant="body2"
+                      sx={{ wordBreak: "break-all" }}
+                    >
+                      {describeToken(token)}
+                      {token.note ? ` (${token.note})` : ""}
+                    </Typography>
+                  ))}
+                {step.kind === "sol" && status === "skipped" && (
+                  <Typography variant="body2">
+                    No SOL left after the network fee.
+                  </Typography>
+                )}
+                {transaction && (
+                  <TransactionProgress state={transaction} cluster={cluster} />
+                )}
+                {stepError && (
+                  <Typography variant="body2" color="error">
+                    {stepError}
+                  </Typography>
+                )}
+              </Box>
+            );
+          })}
+
+          {plan.skipped.length > 0 && (
+            <Box sx={{ mt: 2 }}>
+              <Typography variant="subtitle2">Left behind</Typography>
+              {plan.skipped.map((token) => (
+                <Typography
+                  key={token.account.address}
+                  variant="body2"
+                  sx={{ wordBreak: "break-all" }}
+                >
+                  {describeToken(token)}: {token.note}
+                </Typography>
+              ))}
+            </Box>
+          )}
+
+          <Typography variant="body2" color="error" sx={{ mt: 2 }}>
+            Check the destination address: a sweep cannot be undone.
+          </Typography>
+          <Button
+            variant="contained"
+            color="primary"
+            onClick={sweep}
+            disabled={isSweeping || isStarted}
+            sx={{ mt: 1 }}
+          >
+            {isSweeping
+              ? "Sweeping..."
+              : `Sweep to ${shorten(plan.destination)}`}
+          </Button>
+        </>
+      )}
+    </Box>
+  );
+}
+
+export default SweepPanel;
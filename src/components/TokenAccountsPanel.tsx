@@ -0,0 +1,305 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Box, Button, Checkbox, Typography } from "@mui/material";
+import { TOKEN_2022_PROGRAM_ID } from "@solana/spl-token";
+import {
+  getSPLTokenInfo,
+  getTokenAccounts,
+  TokenAccountDetails,
+} from "../libs/solana";
+import {
+  executeTokenAccountCleanup,
+  getCleanupBlocker,
+  holdsDust,
+  planTokenAccountCleanup,
+} from "../libs/token-accounts";
+import { BatchProgress, BatchStatus, InstructionBatch } from "../libs/batch";
+import { formatAmount, SOL_DECIMALS } from "../libs/amounts";
+import { Cluster } from "../libs/cluster";
+import TransactionProgress from "./TransactionProgress";
+
+type TokenAccountsPanelProps = {
+  address: string;
+  secretKey: Uint8Array;
+  cluster: Cluster;
+  // Called once a cleanup stops, to refresh the balances
+  onComplete: () => void;
+};
+
+const STATUS_LABELS: { [key in BatchStatus]: string } = {
+  pending: "Waiting",
+  sending: "In progress",
+  done: "Done",
+  skipped: "Skipped",
+  failed: "Failed",
+};
+
+const shorten = (address: string) =>
+  `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+/*
+ * Lists every token account of the active address, from both token
+ * programs, and closes the selected ones to reclaim their rent. Empty
+ * accounts are closed directly; accounts holding dust are burned first.
+ */
+function TokenAccountsPanel({
+  address,
+  secretKey,
+  cluster,
+  onComplete,
+}: TokenAccountsPanelProps) {
+  const [accounts, setAccounts] = useState<TokenAccountDetails[]>([]);
+  const [symbols, setSymbols] = useState<{ [mint: string]: string }>({});
+  const [selected, setSelected] = useState<string[]>([]);
+  const [batches, setBatches] = useState<
+    InstructionBatch<TokenAccountDetails>[]
+  >([]);
+  const [progress, setProgress] = useState<BatchProgress[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isClosing, setIsClosing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  // Stops the cleanup when the wallet locks or the account changes
+  const closing = useRef<AbortController | null>(null);
+
+  useEffect(() => () => closing.current?.abort(), []);
+
+  /*
+   * Fetch the token accounts of the address, and look up the token symbols.
+   */
+  const loadAccounts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const accounts = await getTokenAccounts(address, cluster);
+      setAccounts(accounts);
+      setSelected([]);
+      setError(null);
+
+      const mints = Array.from(new Set(accounts.map(({ mint }) => mint)));
+      const infos = await Promise.allSettled(
+        mints.map((mint) => getSPLTokenInfo(mint, cluster))
+      );
+      const symbols: { [mint: string]: string } = {};
+      infos.forEach((info, i) => {
+        if (info.status === "fulfilled" && info.value.symbol) {
+          symbols[mints[i]] = info.value.symbol;
+        }
+      });
+      setSymbols(symbols);
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, cluster]);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  const selectedAccounts = useMemo(
+    () => accounts.filter((account) => selected.includes(account.address)),
+    [accounts, selected]
+  );
+  const dustCount = selectedAccounts.filter(holdsDust).length;
+  const reclaimed = selectedAccounts.reduce(
+    (total, account) => total + BigInt(account.lamports),
+    BigInt(0)
+  );
+  const transactionCount = useMemo(
+    () => planTokenAccountCleanup(selectedAccounts, address).length,
+    [selectedAccounts, address]
+  );
+
+  const toggle = (account: string) =>
+    setSelected((selected) =>
+      selected.includes(account)
+        ? selected.filter((address) => address !== account)
+        : [...selected, account]
+    );
+
+  /*
+   * Select every empty account that can be closed.
+   */
+  const selectEmpty = () =>
+    setSelected(
+      accounts
+        .filter(
+          (account) =>
+            !holdsDust(account) && !getCleanupBlocker(account, address)
+        )
+        .map((account) => account.address)
+    );
+
+  /*
+   * Close the selected accounts, then list the accounts again.
+   */
+  const closeSelected = async () => {
+    const planned = planTokenAccountCleanup(selectedAccounts, address);
+    setBatches(planned);
+    setProgress(
+      planned.map(() => ({ status: "pending", transaction: null, error: null }))
+    );
+    const controller = new AbortController();
+    closing.current = controller;
+    setIsClosing(true);
+    try {
+      await executeTokenAccountCleanup(
+        secretKey,
+        address,
+        planned,
+        cluster,
+        (batch, batchProgress) =>
+          setProgress((progress) =>
+            progress.map((current, i) =>
+              i === batch ? batchProgress : current
+            )
+          ),
+        controller.signal
+      );
+    } finally {
+      setIsClosing(false);
+      onComplete();
+      loadAccounts();
+    }
+  };
+
+  const tokenName = (mint: string) => symbols[mint] || shorten(mint);
+
+  return (
+    <Box sx={{ width: "100%" }}>
+      <Typography variant="h5" sx={{ mt: 4 }}>
+        Token Accounts
+      </Typography>
+      <Typography variant="body2" sx={{ mt: 1 }}>
+        Each token account locks rent, returned when it is closed. Select empty
+        accounts to close, or accounts holding unwanted dust to burn and close.
+      </Typography>
+      <Box sx={{ mt: 1 }}>
+        <Button onClick={loadAccounts} disabled={isLoading || isClosing}>
+          {isLoading ? "Loading..." : "Refresh"}
+        </Button>
+        <Button onClick={selectEmpty} disabled={isClosing}>
+          Select Empty Accounts
+        </Button>
+        {selected.length > 0 && (
+          <Button onClick={() => setSelected([])} disabled={isClosing}>
+            Clear Selection
+          </Button>
+        )}
+      </Box>
+      {error && (
+        <Typography variant="body1" color="error">
+          {error}
+        </Typography>
+      )}
+
+      {!isLoading && !error && accounts.length === 0 && (
+        <Typography variant="body1" sx={{ mt: 2 }}>
+          No token accounts found.
+        </Typography>
+      )}
+      {accounts.map((account) => {
+        const blocker = getCleanupBlocker(account, address);
+        const isSelected = selected.includes(account.address);
+        return (
+          <Box
+            key={account.address}
+            sx={{
+              mt: 1,
+              p: 1,
+              display: "flex",
+              alignItems: "flex-start",
+              border: 1,
+              borderColor: "divider",
+              borderRadius: 1,
+            }}
+          >
+            <Checkbox
+              checked={isSelected}
+              onChange={() => toggle(account.address)}
+              disabled={!!blocker || isClosing}
+              inputProps={{ "aria-label": `Select ${account.address}` }}
+            />
+            <Box sx={{ minWidth: 0 }}>
+              <Typography variant="subtitle2">
+                {formatAmount(account.amount, account.decimals)}{" "}
+                {account.isNative ? "wrapped SOL" : tokenName(account.mint)}
+              </Typography>
+              <Typography variant="body2" sx={{ wordBreak: "break-all" }}>
+                {shorten(account.address)} -{" "}
+                {account.programId === TOKEN_2022_PROGRAM_ID.toBase58()
+                  ? "Token-2022"
+                  : "SPL Token"}{" "}
+                - Rent {formatAmount(BigInt(account.lamports), SOL_DECIMALS)}{" "}
+                SOL
+              </Typography>
+              {blocker && (
+                <Typography variant="body2" color="text.secondary">
+                  Cannot be closed: {blocker}
+                </Typography>
+              )}
+              {isSelected && holdsDust(account) && (
+                <Typography variant="body2" color="error">
+                  The balance is burned before closing
+                </Typography>
+              )}
+            </Box>
+          </Box>
+        );
+      })}
+
+      {selected.length > 0 && (
+        <>
+          <Typography variant="body1" sx={{ mt: 2 }}>
+            Close {selected.length} account{selected.length === 1 ? "" : "s"} in{" "}
+            {transactionCount} transaction
+            {transactionCount === 1 ? "" : "s"}, reclaiming{" "}
+            {formatAmount(reclaimed, SOL_DECIMALS)} SOL.
+          </Typography>
+          {dustCount > 0 && (
+            <Typography variant="body2" color="error">
+              The tokens of {dustCount} account{dustCount === 1 ? "" : "s"} will
+              be burned. This cannot be undone.
+            </Typography>
+          )}
+          <Button
+            variant="contained"
+            color="primary"
+            onClick={closeSelected}
+            disabled={isClosing}
+            sx={{ mt: 1 }}
+          >
+            {isClosing
+              ? "Closing..."
+              : dustCount > 0
+              ? "Burn & Close Selected"
+              : "Close Selected"}
+          </Button>
+        </>
+      )}
+
+      {batches.map((batch, i) => {
+        const { status, transaction, error: batchError } = progress[i];
+        return (
+          <Box key={i} sx={{ mt: 1 }}>
+            <Typography variant="subtitle2">
+              Transaction {i + 1} of {batches.length}: {batch.items.length}{" "}
+              account{batch.items.length === 1 ? "" : "s"} -{" "}
+              {STATUS_LABELS[status]}
+            </Typography>
+            {transaction && (
+              <TransactionProgress state={transaction} cluster={cluster} />
+            )}
+            {batchError && (
+              <Typography variant="body2" color="error">
+                {batchError}
+              </Typography>
+            )}
+          </Box>
+        );
+      })}
+    </Box>
+  );
+}
+
+export default TokenAccountsPanel;
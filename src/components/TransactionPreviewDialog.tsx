@@ -0,0 +1,187 @@
+import {
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import { Transaction, VersionedTransaction } from "@solana/web3.js";
+import { TransactionPreview } from "../libs/simulation";
+import { TransactionState } from "../libs/confirmation";
+import { formatAmount, SOL_DECIMALS } from "../libs/amounts";
+import InstructionList from "./InstructionList";
+
+// Transaction awaiting the user's confirmation in the preview dialog
+export type PendingTransaction = {
+  transaction: Transaction | VersionedTransaction;
+  onUpdate: (state: TransactionState) => void;
+  onError: (message: string) => void;
+};
+
+type TransactionPreviewDialogProps = {
+  open: boolean;
+  preview: TransactionPreview | null;
+  error: string | null;
+  isSending: boolean;
+  walletAddress: string;
+  tokenMetadata: { [key: string]: { name: string; symbol: string } };
+  onConfirm: () => void;
+  onCancel: () => void;
+};
+
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-6)}`;
+
+/*
+ * Formats a balance change in base units, signed either way.
+ */
+const formatChange = (change: bigint, decimals: number) =>
+  `${change > BigInt(0) ? "+" : ""}${formatAmount(change, decimals)}`;
+
+/*
+ * Shows the simulated outcome of a transaction and asks the user to confirm
+ * before it is signed and sent.
+ */
+function TransactionPreviewDialog({
+  open,
+  preview,
+  error,
+  isSending,
+  walletAddress,
+  tokenMetadata,
+  onConfirm,
+  onCancel,
+}: TransactionPreviewDialogProps) {
+  const accountName = (address: string) =>
+    address === walletAddress ? "Your wallet" : shortAddress(address);
+
+  return (
+    <Dialog open={open} onClose={onCancel} fullWidth maxWidth="sm">
+      <DialogTitle>Review Transaction</DialogTitle>
+      <DialogContent>
+        {!preview && !error && <CircularProgress />}
+        {error && (
+          <Typography variant="body1" color="error">
+            {error}
+          </Typography>
+        )}
+
+        {preview && (
+          <>
+            {preview.error && (
+              <Typography variant="body1" color="error" gutterBottom>
+                Simulation failed: {preview.error}. The transaction will likely
+                fail if sent.
+              </Typography>
+            )}
+            <Typography variant="body1">
+              Network fee:{" "}
+              {preview.fee !== null
+                ? `${formatAmount(BigInt(preview.fee), SOL_DECIMALS)} SOL`
+                : "Unknown"}
+            </Typography>
+            <Typography variant="body1">
+              Compute units: {preview.unitsConsumed ?? "Unknown"}
+            </Typography>
+            {preview.rent > 0 && (
+              <Typography variant="body1">
+                Token account rent paid by you:{" "}
+                {formatAmount(BigInt(preview.rent), SOL_DECIMALS)} SOL
+              </Typography>
+            )}
+
+            <Typography variant="h6" sx={{ mt: 2 }}>
+              Balance Changes
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Account</TableCell>
+                  <TableCell>Asset</TableCell>
+                  <TableCell align="right">Change</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {preview.solChanges.map((change) => (
+                  <TableRow key={`sol-${change.address}`}>
+                    <TableCell>{accountName(change.address)}</TableCell>
+                    <TableCell>SOL</TableCell>
+                    <TableCell align="right">
+                      {formatChange(
+                        BigInt(change.postLamports - change.preLamports),
+                        SOL_DECIMALS
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {preview.tokenChanges.map((change) => (
+                  <TableRow key={`token-${change.address}`}>
+                    <TableCell>{accountName(change.owner)}</TableCell>
+                    <TableCell>
+                      {tokenMetadata[change.mint]?.symbol ||
+                        shortAddress(change.mint)}
+                    </TableCell>
+                    <TableCell align="right">
+                      {formatChange(
+                        change.postAmount - change.preAmount,
+                        change.decimals
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Typography variant="h6" sx={{ mt: 2 }}>
+              Instructions
+            </Typography>
+            <InstructionList instructions={preview.instructions} />
+
+            <Typography variant="h6" sx={{ mt: 2 }}>
+              Logs
+            </Typography>
+            <Typography
+              component="pre"
+              variant="body2"
+              sx={{
+                fontFamily: "monospace",
+                whiteSpace: "pre-wrap",
+                wordBreak: "break-all",
+                maxHeight: 200,
+                overflow: "auto",
+              }}
+            >
+              {preview.logs.join("\n")}
+            </Typography>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel} disabled={isSending}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          color={preview?.error ? "error" : "primary"}
+          onClick={onConfirm}
+          disabled={!preview || isSending}
+        >
+          {isSending
+            ? "Sending..."
+            : preview?.error
+            ? "Sign Anyway"
+            : "Sign & Send"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default TransactionPreviewDialog;
@@ -0,0 +1,45 @@
+import { Link, Typography } from "@mui/material";
+import { TransactionState, TransactionStatus } from "../libs/confirmation";
+import { Cluster, getExplorerUrl } from "../libs/cluster";
+
+type TransactionProgressProps = {
+  state: TransactionState;
+  cluster: Cluster;
+};
+
+const STATUS_LABELS: { [key in TransactionStatus]: string } = {
+  sent: "Sent, waiting for the cluster...",
+  processed: "Processed",
+  confirmed: "Confirmed",
+  finalized: "Finalized",
+  expired: "Expired before landing, nothing was transferred",
+  failed: "Failed",
+};
+
+/*
+ * Shows the hash of a sent transaction and its confirmation status.
+ */
+function TransactionProgress({ state, cluster }: TransactionProgressProps) {
+  const isError = state.status === "expired" || state.status === "failed";
+
+  return (
+    <>
+      <Typography variant="body1">
+        Transaction Hash:
+        <Link
+          href={getExplorerUrl(cluster, `tx/${state.signature}`)}
+          target="_blank"
+          rel="noopener noreferrer"
+        >
+          {state.signature}
+        </Link>
+      </Typography>
+      <Typography variant="body1" color={isError ? "error" : undefined}>
+        Status: {STATUS_LABELS[state.status]}
+        {state.error ? ` - ${state.error}` : ""}
+      </Typography>
+    </>
+  );
+}
+
+export default TransactionProgress;
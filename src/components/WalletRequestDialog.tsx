@@ -0,0 +1,108 @@
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from "@mui/material";
+import { WalletRequest } from "../libs/wallet-standard";
+import { decodeTransactionInstructions } from "../libs/instructions";
+import InstructionList from "./InstructionList";
+
+type WalletRequestDialogProps = {
+  request: WalletRequest | null;
+  onApprove: () => void;
+  onReject: () => void;
+};
+
+const TITLES: { [type in WalletRequest["type"]]: string } = {
+  connect: "Connect",
+  signTransaction: "Sign Transaction",
+  signAndSendTransaction: "Sign & Send Transaction",
+  signMessage: "Sign Message",
+  signIn: "Sign In",
+};
+
+/*
+ * Shows the message as text when it is valid UTF-8, otherwise as hex.
+ */
+function describeMessage(message: Uint8Array): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(message);
+  } catch (e) {
+    return `0x${Buffer.from(message).toString("hex")}`;
+  }
+}
+
+/*
+ * Asks the user to approve a request made by a dapp through the Wallet
+ * Standard, showing what would be signed.
+ */
+function WalletRequestDialog({
+  request,
+  onApprove,
+  onReject,
+}: WalletRequestDialogProps) {
+  return (
+    <Dialog open={!!request} onClose={onReject} fullWidth maxWidth="sm">
+      {request && (
+        <>
+          <DialogTitle>
+            {TITLES[request.type]} Request from {request.origin}
+          </DialogTitle>
+          <DialogContent>
+            {request.type === "connect" && (
+              <Typography variant="body1">
+                {request.origin} wants to see the address of the active account
+                and request signatures. Each signature will still need your
+                approval.
+              </Typography>
+            )}
+            {(request.type === "signTransaction" ||
+              request.type === "signAndSendTransaction") && (
+              <>
+                <Typography variant="body1">
+                  {request.type === "signAndSendTransaction"
+                    ? "The transaction will be signed and sent."
+                    : "The signed transaction will be returned to the dapp, which can send it."}
+                </Typography>
+                <InstructionList
+                  instructions={decodeTransactionInstructions(
+                    request.transaction
+                  )}
+                />
+              </>
+            )}
+            {(request.type === "signMessage" || request.type === "signIn") && (
+              <Typography
+                component="pre"
+                variant="body2"
+                sx={{
+                  p: 1,
+                  border: 1,
+                  borderColor: "divider",
+                  borderRadius: 1,
+                  whiteSpace: "pre-wrap",
+                  wordBreak: "break-all",
+                }}
+              >
+                {request.type === "signIn"
+                  ? request.message
+                  : describeMessage(request.message)}
+              </Typography>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={onReject}>Reject</Button>
+            <Button variant="contained" color="primary" onClick={onApprove}>
+              Approve
+            </Button>
+          </DialogActions>
+        </>
+      )}
+    </Dialog>
+  );
+}
+
+export default WalletRequestDialog;
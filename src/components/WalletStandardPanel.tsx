@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Box, Button, Container, TextField, Typography } from "@mui/material";
+import {
+  createScalarWallet,
+  registerWallet,
+  serveFrameWallet,
+  WalletBackend,
+  WalletRequest,
+} from "../libs/wallet-standard";
+import WalletRequestDialog from "./WalletRequestDialog";
+import { Cluster } from "../libs/cluster";
+
+type WalletStandardPanelProps = {
+  // Active account, null while the wallet is locked
+  address: string | null;
+  secretKey: Uint8Array | null;
+  cluster: Cluster;
+};
+
+type QueuedRequest = {
+  request: WalletRequest;
+  resolve: (approved: boolean) => void;
+};
+
+/*
+ * Makes the wallet available to dapps through the Wallet Standard, both in
+ * this page and in an embedded dapp, and prompts for approval of each of
+ * their requests. Stays mounted while the wallet is locked so the
+ * registration keeps working once it is unlocked again.
+ */
+function WalletStandardPanel({
+  address,
+  secretKey,
+  cluster,
+}: WalletStandardPanelProps) {
+  const [queue, setQueue] = useState<QueuedRequest[]>([]);
+  const [dappUrl, setDappUrl] = useState<string>("");
+  const [embeddedUrl, setEmbeddedUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The wallets outlive renders, so they read the active account from refs
+  const accountRef = useRef<{ address: string; secretKey: Uint8Array } | null>(
+    null
+  );
+  const clusterRef = useRef<Cluster>(cluster);
+  accountRef.current = address && secretKey ? { address, secretKey } : null;
+  clusterRef.current = cluster;
+
+  const notifiers = useRef<(() => void)[]>([]);
+  const stopServingFrame = useRef<(() => void) | null>(null);
+
+  const [backend] = useState<WalletBackend>(() => ({
+    getAccount: () => accountRef.current,
+    getCluster: () => clusterRef.current,
+    requestApproval: (request) =>
+      new Promise<boolean>((resolve) =>
+        setQueue((queue) => [...queue, { request, resolve }])
+      ),
+  }));
+
+  // Register with the dapps of this page while mounted
+  useEffect(() => {
+    const { wallet, notifyChange } = createScalarWallet(
+      backend,
+      window.location.host
+    );
+    notifiers.current.push(notifyChange);
+    const unregister = registerWallet(wallet);
+
+    return () => {
+      unregister();
+      notifiers.current = notifiers.current.filter(
+        (notifier) => notifier !== notifyChange
+      );
+    };
+  }, [backend]);
+
+  // Tell connected dapps about account and cluster changes
+  useEffect(() => {
+    notifiers.current.forEach((notifyChange) => notifyChange());
+  }, [address, cluster]);
+
+  // Pending requests cannot be approved once the wallet locks
+  useEffect(() => {
+    if (!secretKey && queue.length > 0) {
+      queue.forEach(({ resolve }) => resolve(false));
+      setQueue([]);
+    }
+  }, [secretKey, queue]);
+
+  /*
+   * Answer the request at the head of the queue.
+   */
+  const answer = (approved: boolean) => {
+    queue[0]?.resolve(approved);
+    setQueue((queue) => queue.slice(1));
+  };
+
+  /*
+   * Serve the wallet to the embedded dapp while its frame is mounted.
+   */
+  const attachFrame = useCallback(
+    (frame: HTMLIFrameElement | null) => {
+      stopServingFrame.current?.();
+      stopServingFrame.current = null;
+      if (!frame || !frame.contentWindow || !embeddedUrl) {
+        return;
+      }
+
+      const url = new URL(embeddedUrl);
+      const { wallet, notifyChange } = createScalarWallet(backend, url.host);
+      notifiers.current.push(notifyChange);
+      const stop = serveFrameWallet(wallet, frame.contentWindow, url.origin);
+      stopServingFrame.current = () => {
+        stop();
+        notifiers.current = notifiers.current.filter(
+          (notifier) => notifier !== notifyChange
+        );
+      };
+    },
+    [backend, embeddedUrl]
+  );
+
+  /*
+   * Load the dapp in the embedded frame.
+   */
+  const openDapp = () => {
+    try {
+      const url = new URL(dappUrl.trim());
+      if (url.protocol !== "https:" && url.hostname !== "localhost") {
+        throw new Error("Dapps must be served over https");
+      }
+      // A same-origin frame could reach into the wallet page and its keys
+      if (url.origin === window.location.origin) {
+        throw new Error("Dapps cannot be served from the wallet's origin");
+      }
+      setEmbeddedUrl(url.toString());
+      setError(null);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <>
+      {address && (
+        <Container sx={{ pb: 4 }}>
+          <Typography variant="h5" sx={{ mt: 4 }}>
+            Dapps
+          </Typography>
+          <Typography variant="body2" sx={{ mt: 1 }}>
+            Dapps in this page, or opened below, can find this wallet through
+            the Wallet Standard. Every connection and signature request needs
+            your approval.
+          </Typography>
+          <TextField
+            label="Dapp URL"
+            fullWidth
+            value={dappUrl}
+            onChange={(e) => setDappUrl(e.target.value)}
+            sx={{ mt: 2 }}
+          />
+          <Box sx={{ mt: 2 }}>
+            <Button variant="contained" color="primary" onClick={openDapp}>
+              Open
+            </Button>
+            {embeddedUrl && (
+              <Button onClick={() => setEmbeddedUrl(null)}>Close</Button>
+            )}
+          </Box>
+          {error && (
+            <Typography variant="body1" color="error">
+              {error}
+            </Typography>
+          )}
+          {embeddedUrl && (
+            <Box
+              component="iframe"
+              key={embeddedUrl}
+              src={embeddedUrl}
+              title="Embedded dapp"
+              sandbox="allow-scripts allow-same-origin allow-forms allow-popups"
+              ref={attachFrame}
+              sx={{
+                mt: 2,
+                width: "100%",
+                height: 600,
+                border: 1,
+                borderColor: "divider",
+              }}
+            />
+          )}
+        </Container>
+      )}
+
+      <WalletRequestDialog
+        request={queue.length > 0 ? queue[0].request : null}
+        onApprove={() => answer(true)}
+        onReject={() => answer(false)}
+      />
+    </>
+  );
+}
+
+export default WalletStandardPanel;
@@ -0,0 +1,116 @@
+/**
+ * @jest-environment node
+ */
+
+import { formatAmount, parseAmount, SOL_DECIMALS } from ".";
+
+const U64_MAX = "18446744073709551615";
+
+describe("parseAmount", () => {
+  test.each([
+    ["1", "1000000000"],
+    ["1.25", "1250000000"],
+    ["0.000000001", "1"],
+    [".5", "500000000"],
+    ["5.", "5000000000"],
+    ["18446744073.709551615", U64_MAX],
+  ])("parse %s SOL into lamports", (amount, lamports) => {
+    expect(parseAmount(amount, SOL_DECIMALS)).toBe(BigInt(lamports));
+  });
+
+  test("parse the amounts floating point gets wrong exactly", () => {
+    // As numbers, 0.1 + 0.2 is not 0.3 and 1.005 * 1000 is not 1005
+    expect(
+      parseAmount("0.1", SOL_DECIMALS) + parseAmount("0.2", SOL_DECIMALS)
+    ).toBe(parseAmount("0.3", SOL_DECIMALS));
+    expect(parseAmount("1.005", 3)).toBe(BigInt(1005));
+    expect(parseAmount("0.3", SOL_DECIMALS)).toBe(BigInt(300000000));
+    expect(parseAmount("9007199254.740993", SOL_DECIMALS)).toBe(
+      BigInt("9007199254740993000")
+    );
+  });
+
+  test("parse amounts of a mint without decimals", () => {
+    expect(parseAmount("42", 0)).toBe(BigInt(42));
+    expect(parseAmount("42.", 0)).toBe(BigInt(42));
+    expect(parseAmount("42.000", 0)).toBe(BigInt(42));
+    expect(parseAmount(U64_MAX, 0)).toBe(BigInt(U64_MAX));
+  });
+
+  test("ignore leading and trailing zeros and whitespace", () => {
+    expect(parseAmount("007.50", 2)).toBe(BigInt(750));
+    expect(parseAmount("0.100000000000", SOL_DECIMALS)).toBe(BigInt(100000000));
+    expect(parseAmount("  1.5\n", 1)).toBe(BigInt(15));
+    expect(parseAmount("0", SOL_DECIMALS)).toBe(BigInt(0));
+  });
+
+  test("reject more decimal places than the mint has", () => {
+    expect(() => parseAmount("0.0000000001", SOL_DECIMALS)).toThrow(
+      "Amount has more than 9 decimal places"
+    );
+    expect(() => parseAmount("1.5", 0)).toThrow(
+      "Amount has more than 0 decimal places"
+    );
+    expect(() => parseAmount("1.25", 1)).toThrow(
+      "Amount has more than 1 decimal place"
+    );
+  });
+
+  test("reject amounts above the u64 maximum", () => {
+    expect(() => parseAmount("18446744073709551616", 0)).toThrow(
+      "Amount is too large"
+    );
+    expect(() => parseAmount("18446744073.709551616", SOL_DECIMALS)).toThrow(
+      "Amount is too large"
+    );
+  });
+
+  test.each(["", " ", ".", "-1", "+1", "1e9", "0x10", "1,5", "1.2.3", "abc"])(
+    'reject "%s"',
+    (amount) => {
+      expect(() => parseAmount(amount, SOL_DECIMALS)).toThrow(
+        `Invalid amount "${amount}"`
+      );
+    }
+  );
+
+  test.each([-1, 1.5, 256, NaN])("reject %s decimals", (decimals) => {
+    expect(() => parseAmount("1", decimals)).toThrow(
+      `Invalid decimals: ${decimals}`
+    );
+  });
+});
+
+describe("formatAmount", () => {
+  test.each([
+    ["1000000000", "1"],
+    ["1250000000", "1.25"],
+    ["1", "0.000000001"],
+    ["0", "0"],
+    [U64_MAX, "18446744073.709551615"],
+  ])("format %s lamports as %s SOL", (lamports, amount) => {
+    expect(formatAmount(BigInt(lamports), SOL_DECIMALS)).toBe(amount);
+  });
+
+  test("format amounts of a mint without decimals", () => {
+    expect(formatAmount(BigInt(42), 0)).toBe("42");
+    expect(formatAmount(BigInt(U64_MAX), 0)).toBe(U64_MAX);
+  });
+
+  test("format negative amounts, such as balance changes", () => {
+    expect(formatAmount(BigInt(-1500), 3)).toBe("-1.5");
+    expect(formatAmount(BigInt(-1), SOL_DECIMALS)).toBe("-0.000000001");
+  });
+
+  test("round-trip with parseAmount", () => {
+    ["0.1", "0.2", "123.456789", "18446744073.709551615"].forEach((amount) =>
+      expect(
+        formatAmount(parseAmount(amount, SOL_DECIMALS), SOL_DECIMALS)
+      ).toBe(amount)
+    );
+  });
+
+  test("reject invalid decimals", () => {
+    expect(() => formatAmount(BigInt(1), -1)).toThrow("Invalid decimals: -1");
+  });
+});
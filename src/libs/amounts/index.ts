@@ -0,0 +1,66 @@
+/*
+ * Helper functions for converting between decimal amounts typed by the user
+ * and integer base units (lamports, or the smallest unit of a token).
+ *
+ * Amounts are kept as decimal strings and bigints end to end so no precision
+ * is lost to floating point, whatever the decimals or supply of the token.
+ */
+
+export const SOL_DECIMALS = 9;
+
+// Lamports and token amounts are u64 on chain
+const U64_MAX = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+const AMOUNT_REGEX = /^(\d*)(?:\.(\d*))?$/;
+
+const assertDecimals = (decimals: number) => {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 255) {
+    throw new Error(`Invalid decimals: ${decimals}`);
+  }
+};
+
+/*
+ * Parses a decimal amount such as "1.25" into base units for the given
+ * decimals, rejecting anything that is not an exact, non-negative u64 amount.
+ */
+export function parseAmount(amount: string, decimals: number): bigint {
+  assertDecimals(decimals);
+
+  const input = amount.trim();
+  const match = AMOUNT_REGEX.exec(input);
+  if (!input || !match || (!match[1] && !match[2])) {
+    throw new Error(`Invalid amount "${amount}"`);
+  }
+
+  const whole = match[1] || "0";
+  const fraction = (match[2] || "").replace(/0+$/, "");
+  if (fraction.length > decimals) {
+    throw new Error(
+      `Amount has more than ${decimals} decimal place${
+        decimals === 1 ? "" : "s"
+      }`
+    );
+  }
+
+  const value = BigInt(whole + fraction.padEnd(decimals, "0"));
+  if (value > U64_MAX) {
+    throw new Error("Amount is too large");
+  }
+  return value;
+}
+
+/*
+ * Formats base units as a decimal amount with the given decimals, without
+ * trailing zeros.
+ */
+export function formatAmount(amount: bigint, decimals: number): string {
+  assertDecimals(decimals);
+
+  const negative = amount < BigInt(0);
+  const digits = (negative ? -amount : amount)
+    .toString()
+    .padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
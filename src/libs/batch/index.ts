@@ -0,0 +1,167 @@
+/*
+ * Helper functions for operations spanning several transactions.
+ *
+ * Operations on many token accounts do not fit in one transaction. Their
+ * instructions are packed, in order, into as few transactions as fit within
+ * the packet size; the transactions are then signed with the scalar key and
+ * sent one after the other, each waiting for the previous one to be
+ * finalized, with the progress of each reported.
+ */
+
+import {
+  PACKET_DATA_SIZE,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { Cluster } from "../cluster";
+import { getConnection } from "../rpc";
+import { PrivateKeyInput } from "../keys";
+import { TransactionState, trackTransaction } from "../confirmation";
+import { sendSignedTransaction, signTransaction } from "../solana";
+
+export type BatchStatus = "pending" | "sending" | "done" | "skipped" | "failed";
+
+export type BatchProgress = {
+  status: BatchStatus;
+  transaction: TransactionState | null;
+  error: string | null;
+};
+
+// Instructions of several items sent in one transaction
+export type InstructionBatch<T> = {
+  items: T[];
+  instructions: TransactionInstruction[];
+};
+
+// Stand-in blockhash for measuring transaction sizes
+const SIZING_BLOCKHASH = PublicKey.default.toBase58();
+
+/*
+ * Compiles the instructions into an unsigned v0 transaction.
+ */
+export function compileTransaction(
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  recentBlockhash: string
+): VersionedTransaction {
+  return new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash,
+      instructions,
+    }).compileToV0Message()
+  );
+}
+
+/*
+ * Whether the instructions fit in one transaction signed by the payer.
+ */
+function fitsInTransaction(
+  payer: PublicKey,
+  instructions: TransactionInstruction[]
+): boolean {
+  try {
+    return (
+      compileTransaction(payer, instructions, SIZING_BLOCKHASH).serialize()
+        .length <= PACKET_DATA_SIZE
+    );
+  } catch (e) {
+    // Too many accounts or too large to serialize
+    return false;
+  }
+}
+
+/*
+ * Packs the instructions of the items, in order, into as few transactions
+ * as fit. The instructions of one item always stay in the same transaction.
+ */
+export function packInstructions<T>(
+  payer: PublicKey,
+  groups: { item: T; instructions: TransactionInstruction[] }[]
+): InstructionBatch<T>[] {
+  const batches: InstructionBatch<T>[] = [];
+  groups.forEach(({ item, instructions }) => {
+    const last = batches[batches.length - 1];
+    if (
+      last &&
+      fitsInTransaction(payer, [...last.instructions, ...instructions])
+    ) {
+      last.items.push(item);
+      last.instructions.push(...instructions);
+    } else {
+      batches.push({ items: [item], instructions: [...instructions] });
+    }
+  });
+  return batches;
+}
+
+/*
+ * Builds, signs and sends count transactions one after the other, waiting
+ * for each to be finalized before building the next. build returns null to
+ * skip a transaction that has become unnecessary. Stops at the first
+ * transaction that fails or expires, or once the signal is aborted; returns
+ * whether all succeeded.
+ */
+export async function executeBatches(
+  scalarKey: PrivateKeyInput,
+  signerAddress: string,
+  count: number,
+  build: (
+    index: number,
+    recentBlockhash: string
+  ) => Promise<VersionedTransaction | null>,
+  cluster: Cluster,
+  onProgress: (index: number, progress: BatchProgress) => void,
+  signal?: AbortSignal
+): Promise<boolean> {
+  const connection = getConnection(cluster);
+
+  for (let i = 0; i < count; i++) {
+    onProgress(i, { status: "sending", transaction: null, error: null });
+
+    try {
+      const { blockhash, lastValidBlockHeight } =
+        await connection.getLatestBlockhash("confirmed");
+      const transaction = await build(i, blockhash);
+      if (!transaction) {
+        onProgress(i, { status: "skipped", transaction: null, error: null });
+        continue;
+      }
+
+      // The key may have been zeroed by the time a stopped run gets here
+      signal?.throwIfAborted();
+      await signTransaction(scalarKey, signerAddress, transaction);
+      await sendSignedTransaction(transaction, cluster);
+      const state = await trackTransaction(
+        transaction,
+        cluster,
+        (state) =>
+          onProgress(i, { status: "sending", transaction: state, error: null }),
+        lastValidBlockHeight,
+        signal
+      );
+
+      if (state.status !== "finalized") {
+        onProgress(i, {
+          status: "failed",
+          transaction: state,
+          error:
+            state.status === "expired"
+              ? "The transaction expired before landing"
+              : state.error,
+        });
+        return false;
+      }
+      onProgress(i, { status: "done", transaction: state, error: null });
+    } catch (e: any) {
+      if (!signal?.aborted) {
+        console.error(e);
+      }
+      onProgress(i, { status: "failed", transaction: null, error: e.message });
+      return false;
+    }
+  }
+  return true;
+}
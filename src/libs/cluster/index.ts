@@ -0,0 +1,233 @@
+/*
+ * Helper functions for choosing the Solana cluster the wallet talks to.
+ *
+ * The public clusters and a local solana-test-validator are built in, and a
+ * custom cluster can point at any RPC endpoint, with its own websocket
+ * endpoint and HTTP headers (for RPC providers that authenticate with them).
+ * The selected cluster and the custom endpoints are kept in localStorage.
+ */
+
+export type ClusterNetwork = "mainnet-beta" | "devnet" | "testnet" | "localnet";
+
+export type ClusterName = ClusterNetwork | "custom";
+
+// Chain identifiers of the Wallet Standard
+export type SolanaChain =
+  | "solana:mainnet"
+  | "solana:devnet"
+  | "solana:testnet"
+  | "solana:localnet";
+
+export type Cluster = {
+  name: ClusterName;
+  // Network served by the RPC, the same as the name except for custom clusters
+  network: ClusterNetwork;
+  rpcUrl: string;
+  // Tried in order when the RPC URL fails
+  fallbackRpcUrls?: string[];
+  // Derived from the RPC URL when not set
+  wsUrl?: string;
+  headers?: { [name: string]: string };
+};
+
+export type CustomCluster = Omit<Cluster, "name">;
+
+export type ClusterSettings = {
+  name: ClusterName;
+  custom: CustomCluster | null;
+};
+
+export const CLUSTER_NAMES: ClusterName[] = [
+  "mainnet-beta",
+  "devnet",
+  "testnet",
+  "localnet",
+  "custom",
+];
+
+export const CLUSTER_LABELS: { [name in ClusterName]: string } = {
+  "mainnet-beta": "Mainnet",
+  devnet: "Devnet",
+  testnet: "Testnet",
+  localnet: "Localnet",
+  custom: "Custom",
+};
+
+// Each URL setting may list fallback endpoints after the first, comma separated
+const CLUSTER_URLS: { [network in ClusterNetwork]: string } = {
+  "mainnet-beta":
+    process.env.REACT_APP_SOLANA_MAINNET_RPC_URL ||
+    "https://api.mainnet-beta.solana.com",
+  devnet:
+    process.env.REACT_APP_SOLANA_DEVNET_RPC_URL ||
+    "https://api.devnet.solana.com",
+  testnet:
+    process.env.REACT_APP_SOLANA_TESTNET_RPC_URL ||
+    "https://api.testnet.solana.com",
+  // Default port of solana-test-validator
+  localnet:
+    process.env.REACT_APP_SOLANA_LOCALNET_RPC_URL || "http://127.0.0.1:8899",
+};
+
+const SETTINGS_KEY = "cluster";
+
+export const DEFAULT_CLUSTER_SETTINGS: ClusterSettings = {
+  name: "mainnet-beta",
+  custom: null,
+};
+
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9a-z-]+$/i;
+
+/*
+ * Returns the cluster for the settings. The custom cluster must have been
+ * configured.
+ */
+export function getCluster(settings: ClusterSettings): Cluster {
+  if (settings.name === "custom") {
+    if (!settings.custom) {
+      throw new Error("The custom cluster has not been configured");
+    }
+    return { name: "custom", ...settings.custom };
+  }
+  const [rpcUrl, ...fallbackRpcUrls] = CLUSTER_URLS[settings.name]
+    .split(",")
+    .map((url) => url.trim());
+  return {
+    name: settings.name,
+    network: settings.name,
+    rpcUrl,
+    fallbackRpcUrls,
+  };
+}
+
+/*
+ * Returns the Wallet Standard chain of the network served by the cluster.
+ */
+export function getChainId(cluster: Cluster): SolanaChain {
+  return cluster.network === "mainnet-beta"
+    ? "solana:mainnet"
+    : `solana:${cluster.network}`;
+}
+
+/*
+ * Returns the Solana Explorer URL of a transaction or address path, e.g.
+ * "tx/<signature>", on the cluster. Local validators are opened through the
+ * explorer's custom RPC option.
+ */
+export function getExplorerUrl(cluster: Cluster, path: string): string {
+  const url = `https://explorer.solana.com/${path}`;
+  switch (cluster.network) {
+    case "mainnet-beta":
+      return url;
+    case "localnet":
+      return `${url}?cluster=custom&customUrl=${encodeURIComponent(
+        cluster.rpcUrl
+      )}`;
+    default:
+      return `${url}?cluster=${cluster.network}`;
+  }
+}
+
+/*
+ * Parses HTTP headers written one per line as "Name: value".
+ */
+export function parseHeaders(text: string): { [name: string]: string } {
+  const headers: { [name: string]: string } = {};
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line)
+    .forEach((line) => {
+      const separator = line.indexOf(":");
+      const name = line.slice(0, separator).trim();
+      if (separator < 0 || !HEADER_NAME_PATTERN.test(name)) {
+        throw new Error(`Invalid header "${line}", expected "Name: value"`);
+      }
+      headers[name] = line.slice(separator + 1).trim();
+    });
+  return headers;
+}
+
+/*
+ * Formats HTTP headers one per line, as parsed by parseHeaders.
+ */
+export function formatHeaders(headers?: { [name: string]: string }): string {
+  return Object.entries(headers || {})
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n");
+}
+
+/*
+ * Checks that the URL is absolute and uses one of the protocols.
+ */
+function checkUrl(name: string, value: string, protocols: string[]) {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch (e) {
+    throw new Error(`${name} is not a valid URL: ${value}`);
+  }
+  if (!protocols.includes(url.protocol)) {
+    throw new Error(
+      `${name} must start with ${protocols
+        .map((protocol) => `${protocol}//`)
+        .join(" or ")}`
+    );
+  }
+}
+
+/*
+ * Checks the endpoints of a custom cluster.
+ */
+export function validateCustomCluster(custom: CustomCluster): CustomCluster {
+  if (!Object.keys(CLUSTER_URLS).includes(custom.network)) {
+    throw new Error(`Unknown network ${custom.network}`);
+  }
+  checkUrl("RPC URL", custom.rpcUrl, ["http:", "https:"]);
+  (custom.fallbackRpcUrls || []).forEach((url) =>
+    checkUrl("Fallback RPC URL", url, ["http:", "https:"])
+  );
+  if (custom.wsUrl) {
+    checkUrl("WebSocket URL", custom.wsUrl, ["ws:", "wss:"]);
+  }
+  Object.keys(custom.headers || {}).forEach((name) => {
+    if (!HEADER_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid header name "${name}"`);
+    }
+  });
+  return custom;
+}
+
+/*
+ * Loads the stored cluster settings, falling back to the defaults when they
+ * are missing or invalid.
+ */
+export function loadClusterSettings(): ClusterSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) {
+      return DEFAULT_CLUSTER_SETTINGS;
+    }
+    const settings = JSON.parse(stored);
+    const custom = settings.custom
+      ? validateCustomCluster(settings.custom)
+      : null;
+    if (
+      !CLUSTER_NAMES.includes(settings.name) ||
+      (settings.name === "custom" && !custom)
+    ) {
+      return DEFAULT_CLUSTER_SETTINGS;
+    }
+    return { name: settings.name, custom };
+  } catch (e) {
+    console.warn("Ignoring invalid cluster settings:", e);
+    return DEFAULT_CLUSTER_SETTINGS;
+  }
+}
+
+/*
+ * Stores the cluster settings, including the headers of the custom cluster.
+ */
+export function saveClusterSettings(settings: ClusterSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,163 @@
+/*
+ * Helper functions for setting the compute unit limit and priority fee of
+ * Solana transactions.
+ */
+
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+
+// Largest compute unit limit a transaction can request
+export const MAX_COMPUTE_UNIT_LIMIT = 1400000;
+// Largest priority fee: a u64 on chain, kept to the integers a number holds
+// exactly
+export const MAX_COMPUTE_UNIT_PRICE = Number.MAX_SAFE_INTEGER;
+// Headroom added on top of the simulated compute units
+const COMPUTE_UNIT_MARGIN = 1.1;
+// Percentile of recent priority fees suggested for the accounts involved
+const PRIORITY_FEE_PERCENTILE = 0.75;
+// Any blockhash will do, the simulation replaces it with a recent one
+const PLACEHOLDER_BLOCKHASH = PublicKey.default.toBase58();
+
+export type ComputeBudgetSettings = {
+  // Maximum compute units, or "auto" to size the limit from a simulation
+  unitLimit?: number | "auto";
+  // Priority fee in micro-lamports per compute unit, or "auto" to suggest it
+  // from recent fees paid for the accounts involved
+  unitPrice?: number | "auto";
+};
+
+/*
+ * Creates the ComputeBudget instructions for the given limit and price.
+ */
+export function getComputeBudgetInstructions(
+  unitLimit?: number,
+  unitPrice?: number
+): TransactionInstruction[] {
+  const instructions = [];
+  if (unitLimit !== undefined) {
+    instructions.push(
+      ComputeBudgetProgram.setComputeUnitLimit({ units: unitLimit })
+    );
+  }
+  if (unitPrice !== undefined && unitPrice > 0) {
+    instructions.push(
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: unitPrice })
+    );
+  }
+  return instructions;
+}
+
+/*
+ * Suggests a priority fee, in micro-lamports per compute unit, from the fees
+ * recently paid to land transactions writing to the given accounts.
+ */
+export async function suggestComputeUnitPrice(
+  connection: Connection,
+  writableAccounts: PublicKey[]
+): Promise<number> {
+  const recentFees = await connection.getRecentPrioritizationFees({
+    lockedWritableAccounts: writableAccounts,
+  });
+  if (recentFees.length === 0) {
+    return 0;
+  }
+
+  const fees = recentFees
+    .map((fee) => fee.prioritizationFee)
+    .sort((a, b) => a - b);
+  const index = Math.min(
+    fees.length - 1,
+    Math.floor(fees.length * PRIORITY_FEE_PERCENTILE)
+  );
+  return fees[index];
+}
+
+/*
+ * Simulates the instructions under the maximum limit and returns the compute
+ * units they consume plus some headroom, or null when the simulation fails.
+ */
+export async function estimateComputeUnitLimit(
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  unitPrice?: number
+): Promise<number | null> {
+  // The budget instructions consume compute units too, so simulate with them
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: PLACEHOLDER_BLOCKHASH,
+    instructions: [
+      ...getComputeBudgetInstructions(MAX_COMPUTE_UNIT_LIMIT, unitPrice),
+      ...instructions,
+    ],
+  }).compileToV0Message();
+
+  const simulation = await connection.simulateTransaction(
+    new VersionedTransaction(message),
+    { sigVerify: false, replaceRecentBlockhash: true }
+  );
+
+  const { err, unitsConsumed } = simulation.value;
+  if (err || !unitsConsumed) {
+    console.warn("Could not estimate compute units:", err);
+    return null;
+  }
+
+  return Math.min(
+    MAX_COMPUTE_UNIT_LIMIT,
+    Math.ceil(unitsConsumed * COMPUTE_UNIT_MARGIN)
+  );
+}
+
+/*
+ * Prepends the ComputeBudget instructions for the settings to the
+ * instructions, resolving "auto" settings against the cluster.
+ */
+export async function withComputeBudget(
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  settings: ComputeBudgetSettings = {}
+): Promise<TransactionInstruction[]> {
+  let unitPrice: number | undefined;
+  if (settings.unitPrice === "auto") {
+    const writableAccounts = [payer];
+    instructions.forEach((instruction) =>
+      instruction.keys.forEach(({ pubkey, isWritable }) => {
+        if (
+          isWritable &&
+          !writableAccounts.some((account) => account.equals(pubkey))
+        ) {
+          writableAccounts.push(pubkey);
+        }
+      })
+    );
+    unitPrice = await suggestComputeUnitPrice(connection, writableAccounts);
+  } else {
+    unitPrice = settings.unitPrice;
+  }
+
+  let unitLimit: number | undefined;
+  if (settings.unitLimit === "auto") {
+    unitLimit =
+      (await estimateComputeUnitLimit(
+        connection,
+        payer,
+        instructions,
+        unitPrice
+      )) ?? undefined;
+  } else {
+    unitLimit = settings.unitLimit;
+  }
+
+  return [
+    ...getComputeBudgetInstructions(unitLimit, unitPrice),
+    ...instructions,
+  ];
+}
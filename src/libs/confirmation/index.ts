@@ -0,0 +1,313 @@
+/*
+ * Helper functions for tracking sent Solana transactions until they are
+ * finalized, rebroadcasting them until their blockhash expires.
+ */
+
+import {
+  NonceAccount,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionError,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import * as bs58 from "bs58";
+import { getTransactionNonceAccount } from "../nonce";
+import { Cluster } from "../cluster";
+import { getConnection } from "../rpc";
+
+const POLL_INTERVAL_MS = 2000;
+// Consecutive failed polls after which tracking gives up
+const MAX_POLL_FAILURES = 5;
+
+export type TransactionStatus =
+  | "sent"
+  | "processed"
+  | "confirmed"
+  | "finalized"
+  | "expired"
+  | "failed";
+
+export type TransactionState = {
+  signature: string;
+  status: TransactionStatus;
+  // Human readable reason when the transaction failed on chain
+  error: string | null;
+  // Slot the transaction landed in, once processed
+  slot: number | null;
+};
+
+const SYSTEM_PROGRAM_ERRORS = [
+  "An account with the same address already exists",
+  "Insufficient SOL balance",
+  "Cannot assign account to this program id",
+  "Cannot allocate account data of this length",
+  "Length of requested seed is too long",
+  "Provided address does not match addressed derived from seed",
+  "Advancing stored nonce requires a populated RecentBlockhashes sysvar",
+  "Stored nonce is still in recent_blockhashes",
+  "Specified nonce does not match stored nonce",
+];
+
+const TOKEN_PROGRAM_ERRORS = [
+  "Lamport balance below rent-exempt threshold",
+  "Insufficient token balance",
+  "Invalid mint",
+  "Account not associated with this mint",
+  "Owner does not match",
+  "Fixed supply",
+  "Account already in use",
+  "Invalid number of provided signers",
+  "Invalid number of required signers",
+  "State is uninitialized",
+  "Instruction does not support native tokens",
+  "Non-native account can only be closed if its balance is zero",
+  "Invalid instruction",
+  "State is invalid for requested operation",
+  "Operation overflowed",
+  "Account does not support specified authority type",
+  "This token mint cannot freeze accounts",
+  "Account is frozen",
+  "The provided decimals value different from the mint decimals",
+  "Instruction does not support non-native tokens",
+];
+
+const TRANSACTION_ERRORS: { [key: string]: string } = {
+  AccountNotFound: "The fee payer account does not exist or has no SOL",
+  InsufficientFundsForFee: "Insufficient SOL to pay the network fee",
+  BlockhashNotFound: "The transaction blockhash has expired",
+  AlreadyProcessed: "The transaction was already processed",
+  AccountInUse: "An account is already in use by another transaction",
+};
+
+/*
+ * Signed transactions are identified by the fee payer's signature.
+ */
+const getTransactionSignature = (
+  transaction: Transaction | VersionedTransaction
+) => {
+  const signature =
+    transaction instanceof VersionedTransaction
+      ? transaction.signatures[0]
+      : transaction.signature;
+  if (!signature || signature.every((byte) => byte === 0)) {
+    throw new Error("Transaction is not signed");
+  }
+  return bs58.default.encode(signature);
+};
+
+/*
+ * Maps a program's custom error code to its message for the programs the
+ * wallet sends instructions to.
+ */
+function decodeCustomError(programId: PublicKey | undefined, code: number) {
+  if (programId?.equals(SystemProgram.programId)) {
+    return SYSTEM_PROGRAM_ERRORS[code];
+  }
+  if (
+    programId?.equals(TOKEN_PROGRAM_ID) ||
+    programId?.equals(TOKEN_2022_PROGRAM_ID)
+  ) {
+    return TOKEN_PROGRAM_ERRORS[code];
+  }
+  return undefined;
+}
+
+/*
+ * Turns the error returned by the RPC for a failed transaction or simulation
+ * into a readable message. When the transaction is given, custom program
+ * errors are resolved against the program of the failing instruction.
+ */
+export function decodeTransactionError(
+  error: TransactionError,
+  transaction?: Transaction | VersionedTransaction
+): string {
+  if (typeof error === "string") {
+    return TRANSACTION_ERRORS[error] || error;
+  }
+
+  if ("InstructionError" in error && Array.isArray(error.InstructionError)) {
+    const [index, detail] = error.InstructionError as [number, unknown];
+
+    let reason: string;
+    if (typeof detail === "string") {
+      reason = detail;
+    } else if (
+      typeof detail === "object" &&
+      detail !== null &&
+      "Custom" in detail &&
+      typeof detail.Custom === "number"
+    ) {
+      let programId: PublicKey | undefined;
+      if (transaction) {
+        const message =
+          transaction instanceof VersionedTransaction
+            ? transaction.message
+            : transaction.compileMessage();
+        const instruction = message.compiledInstructions[index];
+        programId = instruction
+          ? message.staticAccountKeys[instruction.programIdIndex]
+          : undefined;
+      }
+      reason =
+        decodeCustomError(programId, detail.Custom) ||
+        `Custom program error ${detail.Custom}`;
+    } else {
+      reason = JSON.stringify(detail);
+    }
+
+    return `Instruction ${index + 1} failed: ${reason}`;
+  }
+
+  if (
+    "InsufficientFundsForRent" in error &&
+    typeof error.InsufficientFundsForRent === "object" &&
+    error.InsufficientFundsForRent !== null &&
+    "account_index" in error.InsufficientFundsForRent
+  ) {
+    return `Account ${error.InsufficientFundsForRent.account_index} would not hold enough SOL to be rent exempt`;
+  }
+
+  return JSON.stringify(error);
+}
+
+/*
+ * Waits for ms, or until the signal is aborted.
+ */
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/*
+ * Polls the status of a sent transaction until it is finalized, fails or
+ * expires, calling onUpdate on every status change. While the transaction
+ * has not landed it is rebroadcast, until the block height passes the
+ * blockhash's lastValidBlockHeight. Without a known lastValidBlockHeight the
+ * blockhash is checked with the RPC instead, and durable nonce transactions
+ * are rebroadcast until their nonce is advanced.
+ *
+ * Transient RPC errors are retried; after MAX_POLL_FAILURES polls in a row
+ * fail, the last error is thrown. Aborting the signal stops the tracking
+ * with the signal's reason.
+ */
+export async function trackTransaction(
+  transaction: Transaction | VersionedTransaction,
+  cluster: Cluster,
+  onUpdate: (state: TransactionState) => void,
+  lastValidBlockHeight?: number,
+  signal?: AbortSignal
+): Promise<TransactionState> {
+  const connection = getConnection(cluster);
+
+  const signature = getTransactionSignature(transaction);
+  const rawTransaction = transaction.serialize();
+  // Durable nonce transactions hold the nonce in place of the blockhash
+  const blockhash =
+    transaction instanceof VersionedTransaction
+      ? transaction.message.recentBlockhash
+      : transaction.compileMessage().recentBlockhash;
+  const nonceAccount = getTransactionNonceAccount(transaction);
+  const expiryHeight =
+    lastValidBlockHeight ??
+    (transaction instanceof Transaction
+      ? transaction.lastValidBlockHeight
+      : undefined);
+
+  let state: TransactionState = {
+    signature,
+    status: "sent",
+    error: null,
+    slot: null,
+  };
+  const update = (next: Partial<TransactionState>) => {
+    const updated = { ...state, ...next };
+    if (updated.status !== state.status || updated.error !== state.error) {
+      state = updated;
+      onUpdate(state);
+    }
+  };
+
+  onUpdate(state);
+
+  let failures = 0;
+  for (;;) {
+    await sleep(POLL_INTERVAL_MS, signal);
+    signal?.throwIfAborted();
+
+    try {
+      const { value } = await connection.getSignatureStatuses([signature]);
+      const status = value[0];
+
+      if (status?.err) {
+        update({
+          status: "failed",
+          error: decodeTransactionError(status.err, transaction),
+          slot: status.slot,
+        });
+        return state;
+      }
+
+      if (status) {
+        failures = 0;
+        update({
+          status: status.confirmationStatus || "processed",
+          slot: status.slot,
+        });
+        if (status.confirmationStatus === "finalized") {
+          return state;
+        }
+        continue;
+      }
+
+      // Not seen by the cluster (or dropped from a fork), check expiry
+      let isExpired: boolean;
+      if (nonceAccount) {
+        // A nonce transaction expires once the nonce has been advanced
+        const info = await connection.getAccountInfo(nonceAccount, "confirmed");
+        isExpired =
+          !info || NonceAccount.fromAccountData(info.data).nonce !== blockhash;
+      } else if (expiryHeight !== undefined) {
+        isExpired =
+          (await connection.getBlockHeight("confirmed")) > expiryHeight;
+      } else {
+        isExpired = !(await connection.isBlockhashValid(blockhash)).value;
+      }
+      if (isExpired) {
+        // It may have landed since its status was fetched, look once more
+        const { value: recheck } = await connection.getSignatureStatuses(
+          [signature],
+          { searchTransactionHistory: true }
+        );
+        if (!recheck[0]) {
+          update({ status: "expired", slot: null });
+          return state;
+        }
+        failures = 0;
+        continue;
+      }
+
+      await connection.sendRawTransaction(rawTransaction, {
+        skipPreflight: true,
+        maxRetries: 0,
+      });
+      failures = 0;
+    } catch (e) {
+      signal?.throwIfAborted();
+      // Keep polling through transient RPC errors, up to a limit
+      failures += 1;
+      if (failures >= MAX_POLL_FAILURES) {
+        throw e;
+      }
+    }
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * @jest-environment node
+ */
+
+import { webcrypto } from "crypto";
+import { sha512 } from "@noble/hashes/sha2";
+import {
+  getExpandedSecretKey,
+  getExpandedSecretKeyAsync,
+  getPublicKey,
+  getPublicKeyAsync,
+  sign,
+  signAsync,
+  verify,
+  verifyAsync,
+} from ".";
+
+// The async functions hash with crypto.subtle, which jest does not expose
+Object.defineProperty(globalThis, "crypto", { value: webcrypto });
+
+const fromHex = (hex: string) => Uint8Array.from(Buffer.from(hex, "hex"));
+const toHex = (bytes: Uint8Array) => Buffer.from(bytes).toString("hex");
+
+/*
+ * The 64-byte expanded key of an RFC 8032 seed: the clamped first half of
+ * its SHA-512 hash, then the second half as the prefix.
+ */
+const expandSeed = (seed: Uint8Array) => {
+  const hashed = sha512(seed);
+  hashed[0] &= 248;
+  hashed[31] &= 127;
+  hashed[31] |= 64;
+  return hashed;
+};
+
+// RFC 8032 section 7.1, tests 1 to 3
+const RFC8032_VECTORS = [
+  {
+    seed: "9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60",
+    publicKey:
+      "d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a",
+    message: "",
+    signature:
+      "e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e06522490155" +
+      "5fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b",
+  },
+  {
+    seed: "4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb",
+    publicKey:
+      "3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c",
+    message: "72",
+    signature:
+      "92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da" +
+      "085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00",
+  },
+  {
+    seed: "c5aa8df43f9f837bedb7442f31dcb7b166d38535076f094b85ce3a2e0b4458f7",
+    publicKey:
+      "fc51cd8e6218a1a38da47ed00230f0580816ed13ba3303ac5deb911548908025",
+    message: "af82",
+    signature:
+      "6291d657deec24024827e69c3abe01a30ce548a284743a445e3680d7db5ac3ac" +
+      "18ff9b538d16f290ae67f760984dc6594a7c15e9716ed28dc027beceea1ec40a",
+  },
+];
+
+// A 32-byte scalar key, used as the scalar itself rather than hashed
+const SCALAR_VECTOR = {
+  scalar: "030a11181f262d343b424950575e656c737a81888f969da4abb2b9c0c7ced500",
+  expandedKey:
+    "030a11181f262d343b424950575e656c737a81888f969da4abb2b9c0c7ced500" +
+    "bea922d8148dbb5071cbe8d80183c5d2cad3f78b81736cacc44283fde464dd2f",
+  publicKey: "5f6592bed9a77e28243daf2d9873e098797c0f65f84094d90640dd4ee3b8a8a8",
+  message: Buffer.from("scalar key").toString("hex"),
+  signature:
+    "36df5ff9831c529d7d2bb85a766de8be92d950ca8660416ea2f5852d6cc861b0" +
+    "7241ccc734c158e3f0d5f5453cabc6f30ee285524ea3032f8674473374c18909",
+};
+
+// The order of the base point
+const L = BigInt(
+  "0x1000000000000000000000000000000014def9dea2f79cd65812631a5cf5d3ed"
+);
+
+const fromLE = (bytes: Uint8Array) =>
+  BigInt("0x" + toHex(Uint8Array.from(bytes).reverse()));
+const toLE = (n: bigint) => {
+  const bytes = new Uint8Array(32);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number(n & BigInt(255));
+    n >>= BigInt(8);
+  }
+  return bytes;
+};
+
+// The point with y = 3, encoded with y + p instead of y
+const NON_CANONICAL_POINT =
+  "f0ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff7f";
+// The identity, encoded with the sign bit of x = 0 set ("negative zero")
+const NEGATIVE_ZERO =
+  "0100000000000000000000000000000000000000000000000000000000000080";
+// The identity (order 1) and (0, -1) (order 2)
+const IDENTITY =
+  "0100000000000000000000000000000000000000000000000000000000000000";
+const ORDER_2_POINT =
+  "ecffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff7f";
+
+const verifyBoth = async (
+  signature: Uint8Array | string,
+  message: Uint8Array | string,
+  publicKey: Uint8Array | string
+) => {
+  const result = verify(signature, message, publicKey);
+  expect(await verifyAsync(signature, message, publicKey)).toBe(result);
+  expect(verify(signature, message, publicKey, { cofactored: false })).toBe(
+    result
+  );
+  return result;
+};
+
+describe("RFC 8032 vectors, as 64-byte expanded keys", () => {
+  test.each(RFC8032_VECTORS)(
+    'signs and verifies the message "$message"',
+    async ({ seed, publicKey, message, signature }) => {
+      const key = expandSeed(fromHex(seed));
+
+      expect(toHex(getPublicKey(key))).toBe(publicKey);
+      expect(toHex(await getPublicKeyAsync(key))).toBe(publicKey);
+      expect(toHex(sign(fromHex(message), key))).toBe(signature);
+      expect(toHex(await signAsync(fromHex(message), key))).toBe(signature);
+      expect(await verifyBoth(signature, message, publicKey)).toBe(true);
+    }
+  );
+
+  test("expand to the scalar reduced modulo L", async () => {
+    const { seed, message, signature } = RFC8032_VECTORS[1];
+    const key = expandSeed(fromHex(seed));
+    const expanded = getExpandedSecretKey(key);
+
+    expect(toHex(expanded)).toBe(
+      toHex(Buffer.concat([toLE(fromLE(key.slice(0, 32)) % L), key.slice(32)]))
+    );
+    expect(toHex(await getExpandedSecretKeyAsync(key))).toBe(toHex(expanded));
+    expect(toHex(sign(message, expanded))).toBe(signature);
+  });
+});
+
+describe("scalar keys", () => {
+  const { scalar, expandedKey, publicKey, message, signature } = SCALAR_VECTOR;
+
+  test("expand to the scalar and the hashed prefix", async () => {
+    expect(toHex(getExpandedSecretKey(scalar))).toBe(expandedKey);
+    expect(toHex(await getExpandedSecretKeyAsync(fromHex(scalar)))).toBe(
+      expandedKey
+    );
+  });
+
+  test("derive the public key from the scalar itself", async () => {
+    expect(toHex(getPublicKey(fromHex(scalar)))).toBe(publicKey);
+    expect(toHex(await getPublicKeyAsync(scalar))).toBe(publicKey);
+    expect(toHex(getPublicKey(fromHex(expandedKey)))).toBe(publicKey);
+  });
+
+  test("sign the same as their expanded key", async () => {
+    expect(toHex(sign(message, fromHex(scalar)))).toBe(signature);
+    expect(toHex(await signAsync(fromHex(message), scalar))).toBe(signature);
+    expect(toHex(sign(message, fromHex(expandedKey)))).toBe(signature);
+    expect(toHex(await signAsync(message, expandedKey))).toBe(signature);
+    expect(await verifyBoth(signature, message, publicKey)).toBe(true);
+  });
+
+  test("reject another message or public key", async () => {
+    expect(await verifyBoth(signature, "00", publicKey)).toBe(false);
+    expect(
+      await verifyBoth(signature, message, RFC8032_VECTORS[0].publicKey)
+    ).toBe(false);
+  });
+});
+
+describe("verification rejects", () => {
+  const { publicKey, message, signature } = RFC8032_VECTORS[0];
+  const R = fromHex(signature).slice(0, 32);
+  const S = fromHex(signature).slice(32);
+
+  test("a non-canonical S", async () => {
+    const sPlusL = Buffer.concat([R, toLE(fromLE(S) + L)]);
+    expect(await verifyBoth(sPlusL, message, publicKey)).toBe(false);
+  });
+
+  test.each([NON_CANONICAL_POINT, NEGATIVE_ZERO])(
+    "the non-canonical encoding %s as A or R",
+    async (encoding) => {
+      expect(await verifyBoth(signature, message, encoding)).toBe(false);
+      const signatureR = Buffer.concat([fromHex(encoding), S]);
+      expect(await verifyBoth(signatureR, message, publicKey)).toBe(false);
+    }
+  );
+
+  test.each([IDENTITY, ORDER_2_POINT])(
+    "the small-order point %s as A or R",
+    async (point) => {
+      expect(await verifyBoth(signature, message, point)).toBe(false);
+      const signatureR = Buffer.concat([fromHex(point), S]);
+      expect(await verifyBoth(signatureR, message, publicKey)).toBe(false);
+    }
+  );
+
+  test("the signature with A = R = identity and S = 0", async () => {
+    // The verification equation holds for it with any message
+    const trivial = Buffer.concat([fromHex(IDENTITY), new Uint8Array(32)]);
+    expect(await verifyBoth(trivial, message, IDENTITY)).toBe(false);
+    expect(await verifyBoth(trivial, "00", IDENTITY)).toBe(false);
+  });
+});
@@ -6,6 +6,7 @@
  */
 
 import { etc, Point, hashes } from "@noble/ed25519";
+import { sha512 } from "@noble/hashes/sha2";
 
 const CURVE = Point.CURVE();
 
@@ -14,12 +15,13 @@ type Hex = Bytes | string;
 
 const N = CURVE.n;
 const G = Point.BASE;
+const _0n = BigInt(0);
+const _8n = BigInt(8);
+const _255n = BigInt(255);
 
 const err = (m = ""): never => {
   throw new Error(m);
 }; // error helper, messes-up stack trace
-const padh = (num: number | bigint, pad: number) =>
-  num.toString(16).padStart(pad, "0");
 const isu8 = (a: unknown): a is Uint8Array =>
   a instanceof Uint8Array ||
   (a != null && typeof a === "object" && a.constructor.name === "Uint8Array");
@@ -34,13 +36,17 @@ const u8n = (data?: any) => new Uint8Array(data); // creates Uint8Array
 const str = (s: unknown): s is string => typeof s === "string"; // is string
 const toU8 = (a: Hex, len?: number) =>
   au8(str(a) ? etc.hexToBytes(a) : u8n(au8(a)), len); // norm(hex/u8a) to u8a
-const b2h = (b: Bytes): string =>
-  Array.from(b)
-    .map((e) => padh(e, 2))
-    .join(""); // bytes to hex
-const n2b_32LE = (num: bigint) => etc.hexToBytes(padh(num, 32 * 2)).reverse(); // number to bytes LE
-const b2n_LE = (b: Bytes): bigint => BigInt("0x" + b2h(u8n(au8(b)).reverse())); // bytes LE to num
+const n2b_32LE = (num: bigint): Bytes => {
+  const b = u8n(32); // number to bytes LE, without hex strings: the number may be a secret scalar
+  for (let i = 0; i < 32; i++, num >>= _8n) b[i] = Number(num & _255n);
+  return num === _0n ? b : err("number does not fit in 32 bytes");
+};
+const b2n_LE = (b: Bytes): bigint =>
+  au8(b).reduceRight((n: bigint, v: number) => (n << _8n) | BigInt(v), _0n); // bytes LE to num
 const modL_LE = (hash: Bytes): bigint => etc.mod(b2n_LE(hash), N); // modulo L; but little-endian
+const equalBytes = (a: Bytes, b: Bytes): boolean =>
+  a.length === b.length && a.every((v, i) => v === b[i]); // bytes equality
+const wipe = (...bufs: Bytes[]) => bufs.forEach((b) => b.fill(0)); // zero key material
 
 type ExtK = {
   prefix: Bytes;
@@ -48,22 +54,79 @@ type ExtK = {
   point: Point;
   pointBytes: Bytes;
 };
-const getExtendedPublicKeyAsync = (priv: Bytes) =>
-  sha512a(priv).then((hashed: Bytes) => hash2extK(priv, hashed));
-const getExtendedPublicKey = (priv: Bytes) => hash2extK(priv, sha512s(priv));
+// Private keys are either a 32-byte scalar, or a 64-byte expanded key: LE(scalar) || prefix
+const toPriv = (a: Hex): Bytes => {
+  const priv = toU8(a);
+  return priv.length === 32 || priv.length === 64
+    ? priv
+    : err("32-byte scalar or 64-byte expanded key expected");
+};
+const getExtendedPublicKeyAsync = (priv: Bytes): Promise<ExtK> =>
+  priv.length === 64
+    ? Promise.resolve(expanded2extK(priv))
+    : sha512a(priv).then((hashed: Bytes) => hash2extK(priv, hashed));
+const getExtendedPublicKey = (priv: Bytes): ExtK =>
+  priv.length === 64 ? expanded2extK(priv) : hash2extK(priv, sha512s(priv));
+
+// Runs fn on a private copy of the key, wiping the copy and the nonce prefix afterwards
+const withExtKAsync = async <T>(
+  privKey: Hex,
+  fn: (e: ExtK) => T | Promise<T>
+): Promise<T> => {
+  const priv = toPriv(privKey); // toU8 copies, so the caller's buffer is untouched
+  try {
+    const e = await getExtendedPublicKeyAsync(priv);
+    try {
+      return await fn(e);
+    } finally {
+      wipe(e.prefix);
+    }
+  } finally {
+    wipe(priv);
+  }
+};
+const withExtK = <T>(privKey: Hex, fn: (e: ExtK) => T): T => {
+  const priv = toPriv(privKey);
+  try {
+    const e = getExtendedPublicKey(priv);
+    try {
+      return fn(e);
+    } finally {
+      wipe(e.prefix);
+    }
+  } finally {
+    wipe(priv);
+  }
+};
 
 const getPublicKeyAsync = (priv: Hex): Promise<Bytes> =>
-  getExtendedPublicKeyAsync(toU8(priv, 32)).then((p: ExtK) => p.pointBytes);
+  withExtKAsync(priv, (p: ExtK) => p.pointBytes);
 const getPublicKey = (priv: Hex): Bytes =>
-  getExtendedPublicKey(toU8(priv, 32)).pointBytes;
+  withExtK(priv, (p: ExtK) => p.pointBytes);
 
-const hash2extK = (priv: Bytes, hashed: Bytes): ExtK => {
-  const prefix = hashed.slice(32, 64); // ignore the first 32 bytes generally used to generate scalar
-  const scalar = modL_LE(priv); // interpret private key bytes directly as scalar
+const point2extK = (scalar: bigint, prefix: Bytes): ExtK => {
   const point = G.multiply(scalar); // public key point
   const pointBytes = point.toBytes(); // point serialized to Uint8Array
   return { prefix, scalar, point, pointBytes };
 };
+const hash2extK = (priv: Bytes, hashed: Bytes): ExtK => {
+  const prefix = hashed.slice(32, 64); // ignore the first 32 bytes generally used to generate scalar
+  wipe(hashed);
+  const scalar = modL_LE(priv); // interpret private key bytes directly as scalar
+  return point2extK(scalar, prefix);
+};
+const expanded2extK = (expanded: Bytes): ExtK => {
+  const scalar = modL_LE(expanded.subarray(0, 32)); // first half is the LE scalar, as in dalek/libsodium
+  const prefix = expanded.slice(32, 64); // second half is the nonce prefix, supplied externally
+  return point2extK(scalar, prefix);
+};
+const extK2expanded = (e: ExtK): Bytes =>
+  etc.concatBytes(n2b_32LE(e.scalar), e.prefix); // 64-byte LE(scalar) || prefix
+
+const getExpandedSecretKeyAsync = (priv: Hex): Promise<Bytes> =>
+  withExtKAsync(priv, extK2expanded);
+const getExpandedSecretKey = (priv: Hex): Bytes =>
+  withExtK(priv, extK2expanded);
 
 type Finishable<T> = {
   // Reduces logic duplication between
@@ -71,12 +134,21 @@ type Finishable<T> = {
   finish: (hashed: Bytes) => T; // sync & async versions of sign(), verify()
 }; // hashable=start(); finish(hash(hashable));
 type Sha512FnSync = undefined | ((...messages: Bytes[]) => Bytes);
+const defaultShaS = (...m: Bytes[]): Bytes =>
+  (hashes.sha512 || sha512)(etc.concatBytes(...m)); // noble's hashes.sha512 if set, else bundled
 let _shaS: Sha512FnSync;
 const sha512a = (m: Bytes) => hashes.sha512Async(m); // Async SHA512
 const sha512s = (
-  ...m: Bytes[] // Sync SHA512, not set by default
-) =>
-  typeof _shaS === "function" ? _shaS(...m) : err("etc.sha512Sync not set");
+  ...m: Bytes[] // Sync SHA512, bundled @noble/hashes unless overridden
+) => (typeof _shaS === "function" ? _shaS(...m) : defaultShaS(...m));
+
+/*
+ * Overrides the synchronous SHA-512 used by sign() and getPublicKey(),
+ * e.g. with a native implementation. Pass undefined to restore the default.
+ */
+const setSha512Sync = (fn: Sha512FnSync) => {
+  _shaS = fn;
+};
 
 function hashFinish<T>(asynchronous: true, res: Finishable<T>): Promise<T>;
 function hashFinish<T>(asynchronous: false, res: Finishable<T>): T;
@@ -99,15 +171,98 @@ const _sign = (e: ExtK, rBytes: Bytes, msg: Bytes): Finishable<Bytes> => {
 };
 const signAsync = async (msg: Hex, privKey: Hex): Promise<Bytes> => {
   const m = toU8(msg); // RFC8032 5.1.6: sign msg with key async
-  const e = await getExtendedPublicKeyAsync(toU8(privKey, 32)); // pub,prfx
-  const rBytes = await sha512a(etc.concatBytes(e.prefix, m)); // r = SHA512(dom2(F, C) || prefix || PH(M))
-  return hashFinish(true, _sign(e, rBytes, m)); // gen R, k, S, then 64-byte signature
+  return withExtKAsync(privKey, async (e: ExtK) => {
+    // pub,prfx
+    const rBytes = await sha512a(etc.concatBytes(e.prefix, m)); // r = SHA512(dom2(F, C) || prefix || PH(M))
+    try {
+      return await hashFinish(true, _sign(e, rBytes, m)); // gen R, k, S, then 64-byte signature
+    } finally {
+      wipe(rBytes); // the nonce reveals the key together with the signature
+    }
+  });
 };
 const sign = (msg: Hex, privKey: Hex): Bytes => {
   const m = toU8(msg); // RFC8032 5.1.6: sign msg with key sync
-  const e = getExtendedPublicKey(toU8(privKey, 32)); // pub,prfx
-  const rBytes = sha512s(e.prefix, m); // r = SHA512(dom2(F, C) || prefix || PH(M))
-  return hashFinish(false, _sign(e, rBytes, m)); // gen R, k, S, then 64-byte signature
+  return withExtK(privKey, (e: ExtK) => {
+    // pub,prfx
+    const rBytes = sha512s(e.prefix, m); // r = SHA512(dom2(F, C) || prefix || PH(M))
+    try {
+      return hashFinish(false, _sign(e, rBytes, m)); // gen R, k, S, then 64-byte signature
+    } finally {
+      wipe(rBytes);
+    }
+  });
 };
 
-export { getPublicKey, getPublicKeyAsync, sign, signAsync };
+/*
+ * Verification options.
+ * cofactored: true (default) checks [8][S]B = [8]R + [8][k]A, false checks [S]B = R + [k]A.
+ * Both modes enforce the strict RFC8032 encoding rules: canonical S < L, canonical
+ * R and A encodings (y < p, no negative zero) and no small-order R or A.
+ */
+type VerifyOpts = { cofactored?: boolean };
+const defaultVerifyOpts: VerifyOpts = { cofactored: true };
+const _verify = (
+  sig: Hex,
+  msg: Hex,
+  pub: Hex,
+  opts: VerifyOpts = defaultVerifyOpts
+): Finishable<boolean> => {
+  const sigBytes = toU8(sig, 64); // signature must be 64 bytes
+  const m = toU8(msg);
+  const pubBytes = toU8(pub, 32);
+  const { cofactored = true } = opts;
+  let A: Point | undefined;
+  let R: Point | undefined;
+  let S: bigint | undefined;
+  let hashable: Bytes = u8n(0);
+  try {
+    const rBytes = sigBytes.slice(0, 32);
+    const A_ = Point.fromBytes(pubBytes, false); // RFC8032 5.1.3: 0 <= y < p
+    const R_ = Point.fromBytes(rBytes, false);
+    const S_ = b2n_LE(sigBytes.slice(32, 64)); // decode second half as an integer S
+    if (S_ >= N) err("non-canonical S"); // RFC8032 5.1.7: 0 <= S < L
+    if (!equalBytes(A_.toBytes(), pubBytes)) err("non-canonical A");
+    if (!equalBytes(R_.toBytes(), rBytes)) err("non-canonical R");
+    if (A_.isSmallOrder() || R_.isSmallOrder()) err("small-order point");
+    A = A_;
+    R = R_;
+    S = S_;
+    hashable = etc.concatBytes(rBytes, pubBytes, m); // dom2(F, C) || R || A || PH(M)
+  } catch (error) {}
+  const finish = (hashed: Bytes): boolean => {
+    // k = SHA512(dom2(F, C) || R || A || PH(M))
+    if (A == null || R == null || S == null) return false; // false if decoding failed
+    const k = modL_LE(hashed); // decode in little-endian, modulo L
+    const SB = G.multiply(S, false); // [S]B, S may be zero
+    const RkA = R.add(A.multiply(k, false)); // R + [k]A
+    if (!cofactored) return SB.equals(RkA); // [S]B = R + [k]A
+    return RkA.add(SB.negate()).clearCofactor().is0(); // [8][S]B = [8]R + [8][k]A
+  };
+  return { hashable, finish };
+};
+const verifyAsync = async (
+  sig: Hex,
+  msg: Hex,
+  pubKey: Hex,
+  opts: VerifyOpts = defaultVerifyOpts
+): Promise<boolean> => hashFinish(true, _verify(sig, msg, pubKey, opts)); // RFC8032 5.1.7: verify async
+const verify = (
+  sig: Hex,
+  msg: Hex,
+  pubKey: Hex,
+  opts: VerifyOpts = defaultVerifyOpts
+): boolean => hashFinish(false, _verify(sig, msg, pubKey, opts)); // RFC8032 5.1.7: verify sync
+
+export type { VerifyOpts };
+export {
+  getExpandedSecretKey,
+  getExpandedSecretKeyAsync,
+  getPublicKey,
+  getPublicKeyAsync,
+  setSha512Sync,
+  sign,
+  signAsync,
+  verify,
+  verifyAsync,
+};
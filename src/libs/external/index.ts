@@ -0,0 +1,174 @@
+/*
+ * Helper functions for signing transactions built outside the wallet, such
+ * as program calls, swaps or governance votes prepared by a backend.
+ *
+ * The transaction may already carry signatures from other signers. The wallet
+ * only fills in the slot of the active account and keeps the others, so a
+ * multi-signer transaction can be passed along until it is fully signed.
+ */
+
+import { Transaction, VersionedTransaction } from "@solana/web3.js";
+import * as bs58 from "bs58";
+import { verifyAsync } from "../ed25119-scalar";
+import { PrivateKeyInput } from "../keys";
+import { Cluster } from "../cluster";
+import { DecodedInstruction } from "../instructions";
+import {
+  getRequiredSigners,
+  getTransactionMessage,
+  sendSignedTransaction,
+  signTransaction,
+} from "../solana";
+import {
+  decodeTransaction,
+  serializeTransaction,
+  TransactionEncoding,
+} from "../offline";
+
+export type TransactionSigner = {
+  address: string;
+  isFeePayer: boolean;
+  // Base58 signature, null while the slot is empty
+  signature: string | null;
+  // Whether the signature is valid for the message, null while unsigned
+  isValid: boolean | null;
+};
+
+export type ExternalTransaction = {
+  transaction: Transaction | VersionedTransaction;
+  encoding: TransactionEncoding;
+  signers: TransactionSigner[];
+};
+
+/*
+ * Returns the signature in each signer slot of the transaction, or null for
+ * a slot still empty (all zeros).
+ */
+function getSignatureSlots(
+  transaction: Transaction | VersionedTransaction
+): (Uint8Array | null)[] {
+  if (transaction instanceof VersionedTransaction) {
+    return transaction.signatures.map((signature) =>
+      signature.every((byte) => byte === 0) ? null : signature
+    );
+  }
+
+  // Signatures of legacy transactions are matched to the signer by key
+  const signatures = transaction.signatures;
+  return getRequiredSigners(transaction).map((signer) => {
+    const slot = signatures.find((entry) => entry.publicKey.equals(signer));
+    return slot && slot.signature ? slot.signature : null;
+  });
+}
+
+/*
+ * Lists the required signers of the transaction, fee payer first, with the
+ * signature already present in each slot and whether it verifies.
+ */
+export async function getTransactionSigners(
+  transaction: Transaction | VersionedTransaction
+): Promise<TransactionSigner[]> {
+  const message = getTransactionMessage(transaction);
+  const slots = getSignatureSlots(transaction);
+
+  return Promise.all(
+    getRequiredSigners(transaction).map(async (signer, index) => {
+      const signature = slots[index];
+      return {
+        address: signer.toBase58(),
+        isFeePayer: index === 0,
+        signature: signature ? bs58.default.encode(signature) : null,
+        isValid: signature
+          ? await verifyAsync(signature, message, signer.toBytes())
+          : null,
+      };
+    })
+  );
+}
+
+/*
+ * Decodes a base64 or base58 transaction built elsewhere, along with its
+ * signers and their signatures.
+ */
+export async function decodeExternalTransaction(
+  serialized: string
+): Promise<ExternalTransaction> {
+  const { transaction, encoding } = decodeTransaction(serialized);
+  return {
+    transaction,
+    encoding,
+    signers: await getTransactionSigners(transaction),
+  };
+}
+
+/*
+ * Checks that every signer slot holds a valid signature.
+ */
+export function isFullySigned(signers: TransactionSigner[]): boolean {
+  return signers.every((signer) => signer.isValid === true);
+}
+
+/*
+ * Signs a transaction built elsewhere with the Ed25519 Key, placing the
+ * signature in the slot of the signer and keeping the other signatures.
+ * Returns the transaction serialized in its original encoding, with the
+ * decoded instructions that were signed.
+ */
+export async function signExternalTransaction(
+  scalarKey: PrivateKeyInput,
+  signerAddress: string,
+  serialized: string
+): Promise<
+  ExternalTransaction & {
+    serialized: string;
+    instructions: DecodedInstruction[];
+  }
+> {
+  const { transaction, encoding } = decodeTransaction(serialized);
+  const { instructions } = await signTransaction(
+    scalarKey,
+    signerAddress,
+    transaction
+  );
+
+  const signers = await getTransactionSigners(transaction);
+  if (
+    signers.some(
+      (signer) => signer.address === signerAddress && !signer.isValid
+    )
+  ) {
+    throw new Error(`The key does not belong to signer ${signerAddress}`);
+  }
+
+  return {
+    transaction,
+    encoding,
+    signers,
+    serialized: serializeTransaction(transaction, encoding),
+    instructions,
+  };
+}
+
+/*
+ * Broadcasts a transaction built elsewhere once all signers have signed it.
+ */
+export async function sendExternalTransaction(
+  transaction: Transaction | VersionedTransaction,
+  cluster: Cluster
+): Promise<string> {
+  const signers = await getTransactionSigners(transaction);
+  const invalid = signers.find((signer) => signer.isValid === false);
+  if (invalid) {
+    throw new Error(`Signature of ${invalid.address} is not valid`);
+  }
+  const missing = signers.filter((signer) => signer.signature === null);
+  if (missing.length > 0) {
+    throw new Error(
+      `Transaction is still missing signatures from ${missing
+        .map((signer) => signer.address)
+        .join(", ")}`
+    );
+  }
+
+  return sendSignedTransaction(transaction, cluster);
+}
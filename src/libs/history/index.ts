@@ -0,0 +1,296 @@
+/*
+ * Helper functions for reading the transaction history of an address.
+ *
+ * Signatures are listed newest first with getSignaturesForAddress, then each
+ * transaction is fetched parsed and its balance changes are reduced to what
+ * happened to the address: SOL and tokens received or sent, who they came
+ * from or went to, and the fee it paid.
+ */
+
+import {
+  ConfirmedSignatureInfo,
+  ParsedTransactionWithMeta,
+  PublicKey,
+  TokenBalance,
+} from "@solana/web3.js";
+import { getAssociatedTokenAddressSync } from "@solana/spl-token";
+import { decodeTransactionError } from "../confirmation";
+import { Cluster } from "../cluster";
+import { getConnection } from "../rpc";
+import { getSPLTokenInfo } from "../solana";
+
+export type TransferDirection = "incoming" | "outgoing" | "swap" | "none";
+
+export type HistoryTokenTransfer = {
+  mint: string;
+  decimals: number;
+  // Change of the address's balance in base units, negative when sent
+  amount: bigint;
+  // Owners whose balance of the token moved the other way
+  counterparties: string[];
+};
+
+export type HistoryEntry = {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  status: "success" | "failed";
+  error: string | null;
+  memo: string | null;
+  // Network fee in lamports, null when the transaction could not be fetched
+  fee: number | null;
+  feePayer: string | null;
+  direction: TransferDirection;
+  // Change of the address's SOL balance in lamports, not counting the fee
+  solChange: number;
+  // Accounts whose SOL balance moved the other way
+  solCounterparties: string[];
+  tokenTransfers: HistoryTokenTransfer[];
+};
+
+export type HistoryPage = {
+  entries: HistoryEntry[];
+  tokens: { [mint: string]: { name: string; symbol: string } };
+  // Signature to continue from for the next page, null after the last one
+  before: string | null;
+};
+
+export type HistoryOptions = {
+  // Only list transactions older than this signature
+  before?: string;
+  limit?: number;
+  // Only list transactions of the address's token account for this mint
+  mint?: string;
+};
+
+const DEFAULT_PAGE_SIZE = 10;
+
+/*
+ * Sums the token balances of each owner and mint, keyed by "owner:mint".
+ * Balances of accounts without a known owner are keyed by the account.
+ */
+function sumTokenBalances(
+  balances: TokenBalance[],
+  accountKeys: string[]
+): { [key: string]: { mint: string; decimals: number; amount: bigint } } {
+  const sums: {
+    [key: string]: { mint: string; decimals: number; amount: bigint };
+  } = {};
+  balances.forEach((balance) => {
+    const owner = balance.owner || accountKeys[balance.accountIndex];
+    const key = `${owner}:${balance.mint}`;
+    const sum = sums[key] || {
+      mint: balance.mint,
+      decimals: balance.uiTokenAmount.decimals,
+      amount: BigInt(0),
+    };
+    sum.amount += BigInt(balance.uiTokenAmount.amount);
+    sums[key] = sum;
+  });
+  return sums;
+}
+
+/*
+ * Reduces the balance changes of a parsed transaction to the SOL and token
+ * transfers of the address.
+ */
+function getTransfers(
+  transaction: ParsedTransactionWithMeta,
+  address: string
+): Pick<
+  HistoryEntry,
+  "fee" | "feePayer" | "solChange" | "solCounterparties" | "tokenTransfers"
+> {
+  const meta = transaction.meta;
+  const accountKeys = transaction.transaction.message.accountKeys.map((key) =>
+    key.pubkey.toBase58()
+  );
+  const feePayer = accountKeys[0];
+  if (!meta) {
+    return {
+      fee: null,
+      feePayer,
+      solChange: 0,
+      solCounterparties: [],
+      tokenTransfers: [],
+    };
+  }
+
+  const fee = meta.fee;
+
+  // The lamports of token accounts are their rent, not a transfer
+  const tokenAccounts = [
+    ...(meta.preTokenBalances || []),
+    ...(meta.postTokenBalances || []),
+  ].map((balance) => accountKeys[balance.accountIndex]);
+
+  const solChanges = accountKeys.map(
+    (key, index) =>
+      meta.postBalances[index] -
+      meta.preBalances[index] +
+      (key === feePayer ? fee : 0)
+  );
+  const addressIndex = accountKeys.indexOf(address);
+  const solChange = addressIndex >= 0 ? solChanges[addressIndex] : 0;
+  const solCounterparties = accountKeys.filter(
+    (key, index) =>
+      key !== address &&
+      !tokenAccounts.includes(key) &&
+      solChanges[index] * solChange < 0
+  );
+
+  const pre = sumTokenBalances(meta.preTokenBalances || [], accountKeys);
+  const post = sumTokenBalances(meta.postTokenBalances || [], accountKeys);
+  const changes: { [key: string]: bigint } = {};
+  Object.keys({ ...pre, ...post }).forEach((key) => {
+    changes[key] =
+      (post[key]?.amount ?? BigInt(0)) - (pre[key]?.amount ?? BigInt(0));
+  });
+
+  const tokenTransfers: HistoryTokenTransfer[] = [];
+  Object.entries(changes).forEach(([key, amount]) => {
+    const [owner] = key.split(":");
+    const { mint, decimals } = post[key] || pre[key];
+    if (owner !== address || amount === BigInt(0)) {
+      return;
+    }
+
+    const counterparties = Object.entries(changes)
+      .filter(
+        ([otherKey, otherAmount]) =>
+          otherKey !== key &&
+          otherKey.endsWith(`:${mint}`) &&
+          (amount < BigInt(0)
+            ? otherAmount > BigInt(0)
+            : otherAmount < BigInt(0))
+      )
+      .map(([otherKey]) => otherKey.split(":")[0]);
+    tokenTransfers.push({ mint, decimals, amount, counterparties });
+  });
+
+  return { fee, feePayer, solChange, solCounterparties, tokenTransfers };
+}
+
+/*
+ * Tells whether the address received, sent, or exchanged assets.
+ */
+function getDirection(
+  solChange: number,
+  tokenTransfers: HistoryTokenTransfer[]
+): TransferDirection {
+  const changes = [
+    solChange,
+    ...tokenTransfers.map((transfer) => Number(transfer.amount)),
+  ];
+  const received = changes.some((change) => change > 0);
+  const sent = changes.some((change) => change < 0);
+  if (received && sent) {
+    return "swap";
+  }
+  return received ? "incoming" : sent ? "outgoing" : "none";
+}
+
+/*
+ * Builds the history entry of a signature from its parsed transaction, or
+ * from the signature alone when the transaction is not available.
+ */
+function toHistoryEntry(
+  info: ConfirmedSignatureInfo,
+  transaction: ParsedTransactionWithMeta | null,
+  address: string
+): HistoryEntry {
+  const transfers = transaction
+    ? getTransfers(transaction, address)
+    : {
+        fee: null,
+        feePayer: null,
+        solChange: 0,
+        solCounterparties: [],
+        tokenTransfers: [],
+      };
+
+  return {
+    signature: info.signature,
+    slot: info.slot,
+    blockTime: info.blockTime ?? null,
+    status: info.err ? "failed" : "success",
+    error: info.err ? decodeTransactionError(info.err) : null,
+    memo: info.memo,
+    ...transfers,
+    direction: getDirection(transfers.solChange, transfers.tokenTransfers),
+  };
+}
+
+/*
+ * Fetches a page of the transaction history of the given address, newest
+ * first, with the name and symbol of every token involved. With a mint, the
+ * history of the address's associated token account for the mint is listed
+ * instead.
+ */
+export async function getTransactionHistory(
+  address: string,
+  cluster: Cluster,
+  options: HistoryOptions = {}
+): Promise<HistoryPage> {
+  const connection = getConnection(cluster);
+  const limit = options.limit || DEFAULT_PAGE_SIZE;
+
+  let account = new PublicKey(address);
+  if (options.mint) {
+    const mint = new PublicKey(options.mint);
+    const mintInfo = await connection.getAccountInfo(mint);
+    if (!mintInfo) {
+      throw new Error(`Mint ${options.mint} does not exist`);
+    }
+    account = getAssociatedTokenAddressSync(
+      mint,
+      account,
+      true,
+      mintInfo.owner
+    );
+  }
+
+  const signatures = await connection.getSignaturesForAddress(
+    account,
+    { before: options.before, limit },
+    "confirmed"
+  );
+  const transactions = await Promise.all(
+    signatures.map((info) =>
+      connection.getParsedTransaction(info.signature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      })
+    )
+  );
+  const entries = signatures.map((info, index) =>
+    toHistoryEntry(info, transactions[index], address)
+  );
+
+  // Resolve the name and symbol of every token involved
+  const mints = new Set<string>();
+  entries.forEach((entry) =>
+    entry.tokenTransfers.forEach((transfer) => mints.add(transfer.mint))
+  );
+  const tokens: HistoryPage["tokens"] = {};
+  await Promise.all(
+    Array.from(mints).map(async (mint) => {
+      try {
+        const info = await getSPLTokenInfo(mint, cluster);
+        tokens[mint] = { name: info.name, symbol: info.symbol };
+      } catch (e) {
+        console.warn(`Failed to fetch metadata for token ${mint}:`, e);
+        tokens[mint] = { name: "", symbol: "" };
+      }
+    })
+  );
+
+  return {
+    entries,
+    tokens,
+    before:
+      signatures.length === limit
+        ? signatures[signatures.length - 1].signature
+        : null,
+  };
+}
@@ -0,0 +1,837 @@
+/*
+ * Helper functions for describing transaction instructions in human readable
+ * form before they are signed.
+ *
+ * Decoding works from the compiled message alone, without RPC access, so it
+ * can run in an offline instance of the wallet.
+ */
+
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  StakeProgram,
+  SystemProgram,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import { formatAmount, SOL_DECIMALS } from "../amounts";
+
+export type DecodedInstruction = {
+  // Name of the program, or its address when unknown
+  program: string;
+  programId: string;
+  // Name of the instruction, "Unknown" when it could not be decoded
+  type: string;
+  fields: { name: string; value: string }[];
+  // Raw instruction data (hex), for instructions whose data is not decoded
+  data?: string;
+};
+
+export type RawInstruction = {
+  programId: PublicKey;
+  // Addresses of the instruction accounts, in order
+  accounts: string[];
+  data: Uint8Array;
+};
+
+// Decimals of the mints and token accounts known to the caller, by address
+export type TokenDecimals = { [address: string]: number };
+
+type Field = DecodedInstruction["fields"][number];
+
+type InstructionDecoder = (
+  instruction: RawInstruction,
+  tokenDecimals: TokenDecimals
+) => Omit<DecodedInstruction, "program" | "programId"> | null;
+
+export const MEMO_PROGRAM_ID = new PublicKey(
+  "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr"
+);
+const MEMO_V1_PROGRAM_ID = new PublicKey(
+  "Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo"
+);
+
+const toHex = (bytes: Uint8Array) => Buffer.from(bytes).toString("hex");
+
+/*
+ * Reads a little-endian unsigned integer of the given byte length.
+ */
+function readUint(data: Uint8Array, offset: number, length: number): bigint {
+  if (data.length < offset + length) {
+    throw new Error("Instruction data is too short");
+  }
+  let value = BigInt(0);
+  for (let i = offset + length - 1; i >= offset; i--) {
+    value = (value << BigInt(8)) + BigInt(data[i]);
+  }
+  return value;
+}
+
+/*
+ * Reads a 32 byte public key as base58.
+ */
+function readPublicKey(data: Uint8Array, offset: number): string {
+  if (data.length < offset + 32) {
+    throw new Error("Instruction data is too short");
+  }
+  return new PublicKey(data.slice(offset, offset + 32)).toBase58();
+}
+
+/*
+ * Reads a string prefixed with its u64 length, as used for account seeds.
+ * Returns the string and the offset following it.
+ */
+function readString(data: Uint8Array, offset: number): [string, number] {
+  const length = Number(readUint(data, offset, 8));
+  const end = offset + 8 + length;
+  if (data.length < end) {
+    throw new Error("Instruction data is too short");
+  }
+  return [Buffer.from(data.slice(offset + 8, end)).toString("utf8"), end];
+}
+
+const formatSol = (lamports: bigint) =>
+  `${formatAmount(lamports, SOL_DECIMALS)} SOL`;
+
+/*
+ * Formats a token amount with the mint decimals, or in base units when the
+ * decimals are not known.
+ */
+const formatTokenAmount = (amount: bigint, decimals?: number) =>
+  decimals === undefined
+    ? `${amount} base units`
+    : formatAmount(amount, decimals);
+
+/*
+ * Names the instruction accounts by their role. Accounts beyond the named
+ * roles, such as multisig signers, are numbered under the extra name.
+ */
+function namedAccounts(
+  accounts: string[],
+  roles: string[],
+  extraName = "Account"
+): Field[] {
+  return accounts.map((value, index) => ({
+    name:
+      index < roles.length
+        ? roles[index]
+        : `${extraName} ${index - roles.length + 1}`,
+    value,
+  }));
+}
+
+const decodeSystemInstruction: InstructionDecoder = ({ accounts, data }) => {
+  switch (Number(readUint(data, 0, 4))) {
+    case 0:
+      return {
+        type: "Create Account",
+        fields: [
+          ...namedAccounts(accounts, ["Funding account", "New account"]),
+          { name: "Amount", value: formatSol(readUint(data, 4, 8)) },
+          { name: "Space", value: `${readUint(data, 12, 8)} bytes` },
+          { name: "Owner program", value: readPublicKey(data, 20) },
+        ],
+      };
+    case 1:
+      return {
+        type: "Assign",
+        fields: [
+          ...namedAccounts(accounts, ["Account"]),
+          { name: "Owner program", value: readPublicKey(data, 4) },
+        ],
+      };
+    case 2:
+      return {
+        type: "Transfer",
+        fields: [
+          ...namedAccounts(accounts, ["From", "To"]),
+          { name: "Amount", value: formatSol(readUint(data, 4, 8)) },
+        ],
+      };
+    case 3: {
+      const [seed, offset] = readString(data, 36);
+      return {
+        type: "Create Account With Seed",
+        fields: [
+          ...namedAccounts(accounts, ["Funding account", "New account"]),
+          { name: "Base", value: readPublicKey(data, 4) },
+          { name: "Seed", value: seed },
+          { name: "Amount", value: formatSol(readUint(data, offset, 8)) },
+          { name: "Space", value: `${readUint(data, offset + 8, 8)} bytes` },
+          { name: "Owner program", value: readPublicKey(data, offset + 16) },
+        ],
+      };
+    }
+    case 4:
+      return {
+        type: "Advance Nonce Account",
+        fields: [
+          { name: "Nonce account", value: accounts[0] },
+          { name: "Nonce authority", value: accounts[2] },
+        ],
+      };
+    case 5:
+      return {
+        type: "Withdraw Nonce Account",
+        fields: [
+          { name: "Nonce account", value: accounts[0] },
+          { name: "Recipient", value: accounts[1] },
+          { name: "Nonce authority", value: accounts[4] },
+          { name: "Amount", value: formatSol(readUint(data, 4, 8)) },
+        ],
+      };
+    case 6:
+      return {
+        type: "Initialize Nonce Account",
+        fields: [
+          { name: "Nonce account", value: accounts[0] },
+          { name: "Nonce authority", value: readPublicKey(data, 4) },
+        ],
+      };
+    case 7:
+      return {
+        type: "Authorize Nonce Account",
+        fields: [
+          ...namedAccounts(accounts, ["Nonce account", "Nonce authority"]),
+          { name: "New authority", value: readPublicKey(data, 4) },
+        ],
+      };
+    case 8:
+      return {
+        type: "Allocate",
+        fields: [
+          ...namedAccounts(accounts, ["Account"]),
+          { name: "Space", value: `${readUint(data, 4, 8)} bytes` },
+        ],
+      };
+    case 9: {
+      const [seed, offset] = readString(data, 36);
+      return {
+        type: "Allocate With Seed",
+        fields: [
+          ...namedAccounts(accounts, ["Account", "Base account"]),
+          { name: "Seed", value: seed },
+          { name: "Space", value: `${readUint(data, offset, 8)} bytes` },
+          { name: "Owner program", value: readPublicKey(data, offset + 8) },
+        ],
+      };
+    }
+    case 10: {
+      const [seed, offset] = readString(data, 36);
+      return {
+        type: "Assign With Seed",
+        fields: [
+          ...namedAccounts(accounts, ["Account", "Base account"]),
+          { name: "Seed", value: seed },
+          { name: "Owner program", value: readPublicKey(data, offset) },
+        ],
+      };
+    }
+    case 11: {
+      const [seed] = readString(data, 12);
+      return {
+        type: "Transfer With Seed",
+        fields: [
+          ...namedAccounts(accounts, ["From", "Base account", "To"]),
+          { name: "Amount", value: formatSol(readUint(data, 4, 8)) },
+          { name: "Seed", value: seed },
+        ],
+      };
+    }
+    case 12:
+      return {
+        type: "Upgrade Nonce Account",
+        fields: namedAccounts(accounts, ["Nonce account"]),
+      };
+    default:
+      return null;
+  }
+};
+
+const TOKEN_AUTHORITY_TYPES = [
+  "Mint tokens",
+  "Freeze account",
+  "Account owner",
+  "Close account",
+  "Transfer fee config",
+  "Withheld withdraw",
+  "Close mint",
+  "Interest rate",
+  "Permanent delegate",
+  "Confidential transfer mint",
+  "Transfer hook program",
+  "Confidential transfer fee config",
+  "Metadata pointer",
+  "Group pointer",
+  "Group member pointer",
+  "Scaled UI amount config",
+  "Pausable config",
+];
+
+// Token-2022 extension instructions, decoded by name only
+const TOKEN_EXTENSION_INSTRUCTIONS: { [instruction: number]: string } = {
+  21: "Get Account Data Size",
+  22: "Initialize Immutable Owner",
+  23: "Amount To UI Amount",
+  24: "UI Amount To Amount",
+  25: "Initialize Mint Close Authority",
+  26: "Transfer Fee Extension",
+  27: "Confidential Transfer Extension",
+  28: "Default Account State Extension",
+  29: "Reallocate",
+  30: "Memo Transfer Extension",
+  31: "Create Native Mint",
+  32: "Initialize Non-Transferable Mint",
+  33: "Interest Bearing Mint Extension",
+  34: "CPI Guard Extension",
+  35: "Initialize Permanent Delegate",
+  36: "Transfer Hook Extension",
+  37: "Confidential Transfer Fee Extension",
+  38: "Withdraw Excess Lamports",
+  39: "Metadata Pointer Extension",
+  40: "Group Pointer Extension",
+  41: "Group Member Pointer Extension",
+  42: "Confidential Mint Burn Extension",
+  43: "Scaled UI Amount Extension",
+  44: "Pausable Extension",
+};
+
+/*
+ * Reads an optional public key (u8 flag followed by 32 bytes).
+ */
+const readOptionalPublicKey = (data: Uint8Array, offset: number) =>
+  data[offset] === 1 ? readPublicKey(data, offset + 1) : "None";
+
+const decodeTokenInstruction: InstructionDecoder = (
+  { accounts, data },
+  tokenDecimals
+) => {
+  // Unchecked instructions do not carry the decimals, look them up by account
+  const decimalsOf = (...addresses: string[]) =>
+    addresses
+      .map((address) => tokenDecimals[address])
+      .find((decimals) => decimals !== undefined);
+  const signers = (roles: string[]) =>
+    namedAccounts(accounts, roles, "Multisig signer");
+
+  switch (data[0]) {
+    case 0:
+    case 20:
+      return {
+        type: data[0] === 0 ? "Initialize Mint" : "Initialize Mint 2",
+        fields: [
+          { name: "Mint", value: accounts[0] },
+          { name: "Decimals", value: `${data[1]}` },
+          { name: "Mint authority", value: readPublicKey(data, 2) },
+          { name: "Freeze authority", value: readOptionalPublicKey(data, 34) },
+        ],
+      };
+    case 1:
+      return {
+        type: "Initialize Account",
+        fields: namedAccounts(accounts, ["Account", "Mint", "Owner"]),
+      };
+    case 2:
+    case 19:
+      return {
+        type: data[0] === 2 ? "Initialize Multisig" : "Initialize Multisig 2",
+        fields: [
+          { name: "Multisig", value: accounts[0] },
+          ...accounts.slice(data[0] === 2 ? 2 : 1).map((value, index) => ({
+            name: `Signer ${index + 1}`,
+            value,
+          })),
+          { name: "Required signatures", value: `${data[1]}` },
+        ],
+      };
+    case 3:
+      return {
+        type: "Transfer",
+        fields: [
+          ...signers(["Source", "Destination", "Owner"]),
+          {
+            name: "Amount",
+            value: formatTokenAmount(
+              readUint(data, 1, 8),
+              decimalsOf(accounts[0], accounts[1])
+            ),
+          },
+        ],
+      };
+    case 4:
+      return {
+        type: "Approve",
+        fields: [
+          ...signers(["Source", "Delegate", "Owner"]),
+          {
+            name: "Amount",
+            value: formatTokenAmount(
+              readUint(data, 1, 8),
+              decimalsOf(accounts[0])
+            ),
+          },
+        ],
+      };
+    case 5:
+      return {
+        type: "Revoke",
+        fields: signers(["Source", "Owner"]),
+      };
+    case 6:
+      return {
+        type: "Set Authority",
+        fields: [
+          ...signers(["Account", "Current authority"]),
+          {
+            name: "Authority type",
+            value: TOKEN_AUTHORITY_TYPES[data[1]] || `${data[1]}`,
+          },
+          { name: "New authority", value: readOptionalPublicKey(data, 2) },
+        ],
+      };
+    case 7:
+      return {
+        type: "Mint To",
+        fields: [
+          ...signers(["Mint", "Destination", "Mint authority"]),
+          {
+            name: "Amount",
+            value: formatTokenAmount(
+              readUint(data, 1, 8),
+              decimalsOf(accounts[0], accounts[1])
+            ),
+          },
+        ],
+      };
+    case 8:
+      return {
+        type: "Burn",
+        fields: [
+          ...signers(["Account", "Mint", "Owner"]),
+          {
+            name: "Amount",
+            value: formatTokenAmount(
+              readUint(data, 1, 8),
+              decimalsOf(accounts[1], accounts[0])
+            ),
+          },
+        ],
+      };
+    case 9:
+      return {
+        type: "Close Account",
+        fields: signers(["Account", "Destination", "Owner"]),
+      };
+    case 10:
+    case 11:
+      return {
+        type: data[0] === 10 ? "Freeze Account" : "Thaw Account",
+        fields: signers(["Account", "Mint", "Freeze authority"]),
+      };
+    case 12:
+      return {
+        type: "Transfer Checked",
+        fields: [
+          ...signers(["Source", "Mint", "Destination", "Owner"]),
+          {
+            name: "Amount",
+            value: formatAmount(readUint(data, 1, 8), data[9]),
+          },
+        ],
+      };
+    case 13:
+      return {
+        type: "Approve Checked",
+        fields: [
+          ...signers(["Source", "Mint", "Delegate", "Owner"]),
+          {
+            name: "Amount",
+            value: formatAmount(readUint(data, 1, 8), data[9]),
+          },
+        ],
+      };
+    case 14:
+      return {
+        type: "Mint To Checked",
+        fields: [
+          ...signers(["Mint", "Destination", "Mint authority"]),
+          {
+            name: "Amount",
+            value: formatAmount(readUint(data, 1, 8), data[9]),
+          },
+        ],
+      };
+    case 15:
+      return {
+        type: "Burn Checked",
+        fields: [
+          ...signers(["Account", "Mint", "Owner"]),
+          {
+            name: "Amount",
+            value: formatAmount(readUint(data, 1, 8), data[9]),
+          },
+        ],
+      };
+    case 16:
+    case 18:
+      return {
+        type: data[0] === 16 ? "Initialize Account 2" : "Initialize Account 3",
+        fields: [
+          ...namedAccounts(accounts.slice(0, 2), ["Account", "Mint"]),
+          { name: "Owner", value: readPublicKey(data, 1) },
+        ],
+      };
+    case 17:
+      return {
+        type: "Sync Native",
+        fields: namedAccounts(accounts, ["Account"]),
+      };
+    case 26:
+      // Transfer Checked With Fee
+      if (data[1] === 1) {
+        return {
+          type: "Transfer Checked With Fee",
+          fields: [
+            ...signers(["Source", "Mint", "Destination", "Owner"]),
+            {
+              name: "Amount",
+              value: formatAmount(readUint(data, 2, 8), data[10]),
+            },
+            {
+              name: "Maximum fee",
+              value: formatAmount(readUint(data, 11, 8), data[10]),
+            },
+          ],
+        };
+      }
+      break;
+    case 30:
+      if (data[1] === 0 || data[1] === 1) {
+        return {
+          type:
+            data[1] === 0 ? "Enable Required Memos" : "Disable Required Memos",
+          fields: signers(["Account", "Owner"]),
+        };
+      }
+      break;
+  }
+
+  const extension = TOKEN_EXTENSION_INSTRUCTIONS[data[0]];
+  return extension
+    ? {
+        type: extension,
+        fields: namedAccounts(accounts, []),
+        data: toHex(data),
+      }
+    : null;
+};
+
+const decodeAssociatedTokenInstruction: InstructionDecoder = ({
+  accounts,
+  data,
+}) => {
+  if (data.length > 1 || (data.length === 1 && data[0] > 2)) {
+    return null;
+  }
+  if (data[0] === 2) {
+    return {
+      type: "Recover Nested",
+      fields: namedAccounts(accounts, [
+        "Nested account",
+        "Nested mint",
+        "Destination",
+        "Owner account",
+        "Owner mint",
+        "Wallet",
+      ]),
+    };
+  }
+  return {
+    type:
+      data[0] === 1
+        ? "Create Associated Token Account (Idempotent)"
+        : "Create Associated Token Account",
+    fields: namedAccounts(accounts.slice(0, 4), [
+      "Payer",
+      "Token account",
+      "Owner",
+      "Mint",
+    ]),
+  };
+};
+
+const decodeComputeBudgetInstruction: InstructionDecoder = ({ data }) => {
+  switch (data[0]) {
+    case 1:
+      return {
+        type: "Request Heap Frame",
+        fields: [{ name: "Heap size", value: `${readUint(data, 1, 4)} bytes` }],
+      };
+    case 2:
+      return {
+        type: "Set Compute Unit Limit",
+        fields: [{ name: "Units", value: `${readUint(data, 1, 4)}` }],
+      };
+    case 3:
+      return {
+        type: "Set Compute Unit Price",
+        fields: [
+          {
+            name: "Priority fee",
+            value: `${readUint(data, 1, 8)} micro-lamports per unit`,
+          },
+        ],
+      };
+    case 4:
+      return {
+        type: "Set Loaded Accounts Data Size Limit",
+        fields: [{ name: "Limit", value: `${readUint(data, 1, 4)} bytes` }],
+      };
+    default:
+      return null;
+  }
+};
+
+const decodeMemoInstruction: InstructionDecoder = ({ accounts, data }) => ({
+  type: "Memo",
+  fields: [
+    { name: "Memo", value: Buffer.from(data).toString("utf8") },
+    ...namedAccounts(accounts, [], "Signer"),
+  ],
+});
+
+const STAKE_AUTHORIZE_TYPES = ["Staker", "Withdrawer"];
+
+const decodeStakeInstruction: InstructionDecoder = ({ accounts, data }) => {
+  switch (Number(readUint(data, 0, 4))) {
+    case 0:
+      return {
+        type: "Initialize",
+        fields: [
+          { name: "Stake account", value: accounts[0] },
+          { name: "Staker", value: readPublicKey(data, 4) },
+          { name: "Withdrawer", value: readPublicKey(data, 36) },
+        ],
+      };
+    case 1:
+      return {
+        type: "Authorize",
+        fields: [
+          { name: "Stake account", value: accounts[0] },
+          { name: "Authority", value: accounts[2] },
+          { name: "New authority", value: readPublicKey(data, 4) },
+          {
+            name: "Authority type",
+            value: STAKE_AUTHORIZE_TYPES[Number(readUint(data, 36, 4))],
+          },
+        ],
+      };
+    case 2:
+      return {
+        type: "Delegate Stake",
+        fields: [
+          { name: "Stake account", value: accounts[0] },
+          { name: "Vote account", value: accounts[1] },
+          { name: "Stake authority", value: accounts[5] },
+        ],
+      };
+    case 3:
+      return {
+        type: "Split",
+        fields: [
+          ...namedAccounts(accounts, [
+            "Stake account",
+            "New stake account",
+            "Stake authority",
+          ]),
+          { name: "Amount", value: formatSol(readUint(data, 4, 8)) },
+        ],
+      };
+    case 4:
+      return {
+        type: "Withdraw",
+        fields: [
+          { name: "Stake account", value: accounts[0] },
+          { name: "Recipient", value: accounts[1] },
+          { name: "Withdraw authority", value: accounts[4] },
+          { name: "Amount", value: formatSol(readUint(data, 4, 8)) },
+        ],
+      };
+    case 5:
+      return {
+        type: "Deactivate",
+        fields: [
+          { name: "Stake account", value: accounts[0] },
+          { name: "Stake authority", value: accounts[2] },
+        ],
+      };
+    case 7:
+      return {
+        type: "Merge",
+        fields: [
+          { name: "Destination stake account", value: accounts[0] },
+          { name: "Source stake account", value: accounts[1] },
+          { name: "Stake authority", value: accounts[4] },
+        ],
+      };
+    case 9:
+      return {
+        type: "Initialize Checked",
+        fields: namedAccounts(accounts, [
+          "Stake account",
+          "Rent sysvar",
+          "Staker",
+          "Withdrawer",
+        ]),
+      };
+    case 10:
+      return {
+        type: "Authorize Checked",
+        fields: [
+          { name: "Stake account", value: accounts[0] },
+          { name: "Authority", value: accounts[2] },
+          { name: "New authority", value: accounts[3] },
+          {
+            name: "Authority type",
+            value: STAKE_AUTHORIZE_TYPES[Number(readUint(data, 4, 4))],
+          },
+        ],
+      };
+    case 16:
+    case 17:
+      return {
+        type: data[0] === 16 ? "Move Stake" : "Move Lamports",
+        fields: [
+          ...namedAccounts(accounts, [
+            "Source stake account",
+            "Destination stake account",
+            "Stake authority",
+          ]),
+          { name: "Amount", value: formatSol(readUint(data, 4, 8)) },
+        ],
+      };
+    default:
+      return null;
+  }
+};
+
+const PROGRAMS: {
+  [programId: string]: { name: string; decode: InstructionDecoder };
+} = {
+  [SystemProgram.programId.toBase58()]: {
+    name: "System Program",
+    decode: decodeSystemInstruction,
+  },
+  [TOKEN_PROGRAM_ID.toBase58()]: {
+    name: "Token Program",
+    decode: decodeTokenInstruction,
+  },
+  [TOKEN_2022_PROGRAM_ID.toBase58()]: {
+    name: "Token-2022 Program",
+    decode: decodeTokenInstruction,
+  },
+  [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()]: {
+    name: "Associated Token Account Program",
+    decode: decodeAssociatedTokenInstruction,
+  },
+  [ComputeBudgetProgram.programId.toBase58()]: {
+    name: "Compute Budget Program",
+    decode: decodeComputeBudgetInstruction,
+  },
+  [MEMO_PROGRAM_ID.toBase58()]: {
+    name: "Memo Program",
+    decode: decodeMemoInstruction,
+  },
+  [MEMO_V1_PROGRAM_ID.toBase58()]: {
+    name: "Memo Program (v1)",
+    decode: decodeMemoInstruction,
+  },
+  [StakeProgram.programId.toBase58()]: {
+    name: "Stake Program",
+    decode: decodeStakeInstruction,
+  },
+};
+
+/*
+ * Describes a single instruction, falling back to its raw data and accounts
+ * for unknown programs or instructions.
+ */
+export function decodeInstruction(
+  instruction: RawInstruction,
+  tokenDecimals: TokenDecimals = {}
+): DecodedInstruction {
+  const programId = instruction.programId.toBase58();
+  const program = PROGRAMS[programId];
+
+  let decoded: ReturnType<InstructionDecoder> = null;
+  try {
+    decoded = program ? program.decode(instruction, tokenDecimals) : null;
+  } catch (e) {
+    console.warn(`Could not decode ${programId} instruction:`, e);
+  }
+
+  if (decoded) {
+    return { program: program.name, programId, ...decoded };
+  }
+
+  return {
+    program: program?.name || programId,
+    programId,
+    type: "Unknown",
+    fields: instruction.accounts.map((account, index) => ({
+      name: `Account ${index + 1}`,
+      value: account,
+    })),
+    data: toHex(instruction.data),
+  };
+}
+
+/*
+ * Describes every instruction of a legacy or versioned transaction. Accounts
+ * loaded from address lookup tables cannot be resolved offline and are shown
+ * by their lookup table position. Token amounts of instructions that do not
+ * carry the mint decimals are shown in base units unless the decimals of
+ * their accounts are passed in.
+ */
+export function decodeTransactionInstructions(
+  transaction: Transaction | VersionedTransaction,
+  tokenDecimals: TokenDecimals = {}
+): DecodedInstruction[] {
+  const message =
+    transaction instanceof VersionedTransaction
+      ? transaction.message
+      : transaction.compileMessage();
+
+  const staticKeys = message.staticAccountKeys.map((key) => key.toBase58());
+  const lookupKeys: string[] = [];
+  const lookups = message.addressTableLookups;
+  [false, true].forEach((readonly) =>
+    lookups.forEach((lookup) =>
+      (readonly ? lookup.readonlyIndexes : lookup.writableIndexes).forEach(
+        (index) =>
+          lookupKeys.push(
+            `${lookup.accountKey.toBase58()} (lookup table entry ${index})`
+          )
+      )
+    )
+  );
+  const accountKeys = [...staticKeys, ...lookupKeys];
+
+  return message.compiledInstructions.map((instruction) =>
+    decodeInstruction(
+      {
+        programId: message.staticAccountKeys[instruction.programIdIndex],
+        accounts: instruction.accountKeyIndexes.map(
+          (index) => accountKeys[index]
+        ),
+        data: instruction.data,
+      },
+      tokenDecimals
+    )
+  );
+}
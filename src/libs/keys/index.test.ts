@@ -0,0 +1,155 @@
+/**
+ * @jest-environment node
+ */
+
+import * as bs58 from "bs58";
+import { sha512 } from "@noble/hashes/sha2";
+import { parsePrivateKey, toSecretKey, withSecretKey } from ".";
+
+const fromHex = (hex: string) => Uint8Array.from(Buffer.from(hex, "hex"));
+const toHex = (bytes: Uint8Array) => Buffer.from(bytes).toString("hex");
+
+// The scalar vector of the ed25119-scalar tests
+const SCALAR =
+  "030a11181f262d343b424950575e656c737a81888f969da4abb2b9c0c7ced500";
+const PREFIX =
+  "bea922d8148dbb5071cbe8d80183c5d2cad3f78b81736cacc44283fde464dd2f";
+const PUBLIC_KEY =
+  "5f6592bed9a77e28243daf2d9873e098797c0f65f84094d90640dd4ee3b8a8a8";
+
+// A clamped expanded key, as exported by libsodium or dalek: the SHA-512 of
+// the RFC 8032 test 1 seed with the scalar half clamped
+const clampedKey = () => {
+  const key = sha512(
+    fromHex("9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60")
+  );
+  key[0] &= 248;
+  key[31] &= 127;
+  key[31] |= 64;
+  return key;
+};
+
+// The order of the base point, little-endian
+const L = "edd3f55c1a631258d69cf7a2def9de1400000000000000000000000000000010";
+
+const encodings = (bytes: Uint8Array) => ({
+  hex: toHex(bytes),
+  base58: bs58.default.encode(bytes),
+  base64: Buffer.from(bytes).toString("base64"),
+  json: JSON.stringify(Array.from(bytes)),
+});
+
+describe("format detection", () => {
+  test.each(Object.entries(encodings(fromHex(SCALAR))))(
+    "read a %s scalar",
+    (format, input) => {
+      const parsed = parsePrivateKey(input);
+      expect(parsed.format).toBe(format);
+      expect(parsed.kind).toBe("scalar");
+      expect(toHex(parsed.secretKey)).toBe(SCALAR);
+      expect(parsed.warnings).toEqual([]);
+    }
+  );
+
+  test.each(Object.entries(encodings(fromHex(SCALAR + PREFIX))))(
+    "read a %s expanded key",
+    (format, input) => {
+      const parsed = parsePrivateKey(input);
+      expect(parsed.format).toBe(format);
+      expect(parsed.kind).toBe("expanded");
+      expect(toHex(parsed.secretKey)).toBe(SCALAR + PREFIX);
+    }
+  );
+
+  test("read 0x-prefixed hex and surrounding whitespace", () => {
+    const parsed = parsePrivateKey(`  0x${SCALAR.toUpperCase()}\n`);
+    expect(parsed.format).toBe("hex");
+    expect(toHex(parsed.secretKey)).toBe(SCALAR);
+  });
+
+  test("read hex that is also valid base58 as hex", () => {
+    const digits = "1".repeat(64);
+    expect(parsePrivateKey(digits).format).toBe("hex");
+  });
+});
+
+describe("key kinds", () => {
+  test("tell a keypair from an expanded key by its public key", () => {
+    const parsed = parsePrivateKey(SCALAR + PUBLIC_KEY);
+    expect(parsed.kind).toBe("keypair");
+    expect(toHex(parsed.secretKey)).toBe(SCALAR);
+  });
+
+  test("read a clamped expanded key without a warning", () => {
+    const key = clampedKey();
+    const parsed = parsePrivateKey(toHex(key));
+    expect(parsed.kind).toBe("expanded");
+    expect(toHex(parsed.secretKey)).toBe(toHex(key));
+    expect(parsed.warnings).toEqual([]);
+  });
+
+  test("warn about a raw scalar not below L", () => {
+    const parsed = parsePrivateKey(toHex(clampedKey().slice(0, 32)));
+    expect(parsed.kind).toBe("scalar");
+    expect(parsed.warnings).toHaveLength(1);
+    expect(parsed.warnings[0]).toMatch(/reduced modulo L/);
+  });
+});
+
+describe("rejects", () => {
+  test.each([
+    ["a zero scalar", "00".repeat(32)],
+    ["the scalar L", L],
+  ])("%s", (_, input) => {
+    expect(() => parsePrivateKey(input)).toThrow(
+      "Invalid private key: the scalar is zero modulo L"
+    );
+  });
+
+  test("an empty key", () => {
+    expect(() => parsePrivateKey("  ")).toThrow("Private key is empty");
+  });
+
+  test("a JSON key of the wrong length", () => {
+    expect(() => parsePrivateKey("[1, 2, 3]")).toThrow(
+      "Invalid private key length: expected 32 or 64 bytes, got 3"
+    );
+  });
+
+  test.each([
+    ["[1, 2,", "Invalid JSON byte array"],
+    ["[256]", "JSON private key must be an array of bytes (0-255)"],
+    ['["1"]', "JSON private key must be an array of bytes (0-255)"],
+  ])("the JSON %s", (input, message) => {
+    expect(() => parsePrivateKey(input)).toThrow(message);
+  });
+
+  test.each([SCALAR.slice(2), "not a key!", bs58.default.encode([1, 2, 3])])(
+    "the input %s",
+    (input) => {
+      expect(() => parsePrivateKey(input)).toThrow(
+        "Unrecognized private key format"
+      );
+    }
+  );
+});
+
+describe("toSecretKey", () => {
+  test("parse strings and pass key bytes through", () => {
+    expect(toHex(toSecretKey(SCALAR))).toBe(SCALAR);
+    const bytes = fromHex(SCALAR + PREFIX);
+    expect(toSecretKey(bytes)).toBe(bytes);
+    expect(() => toSecretKey(new Uint8Array(16))).toThrow(
+      "Invalid private key length: expected 32 or 64 bytes, got 16"
+    );
+  });
+
+  test("zero the bytes parsed from a string once done", async () => {
+    let used: Uint8Array | null = null;
+    await withSecretKey(SCALAR, async (secretKey) => {
+      used = secretKey;
+      expect(toHex(secretKey)).toBe(SCALAR);
+    });
+    expect(toHex(used!)).toBe("00".repeat(32));
+  });
+});
@@ -0,0 +1,197 @@
+/*
+ * Helper functions for parsing ed25519-scalar private keys.
+ *
+ * Scalar keys reach us in several encodings: base58 (the original format of
+ * this wallet), hex, base64 and JSON byte arrays (Solana CLI style). Each of
+ * them may hold a 32-byte scalar, a 64-byte expanded key (scalar || prefix),
+ * or a 64-byte Solana keypair (scalar || public key).
+ */
+
+import { Point } from "@noble/ed25519";
+import * as bs58 from "bs58";
+import { getPublicKey } from "../ed25119-scalar";
+
+export type PrivateKeyFormat = "base58" | "hex" | "base64" | "json";
+
+export type PrivateKeyKind = "scalar" | "expanded" | "keypair";
+
+// A private key as typed by the user, or already decoded key bytes
+export type PrivateKeyInput = string | Uint8Array;
+
+export type ParsedPrivateKey = {
+  // Key bytes accepted by the ed25119-scalar module: 32-byte scalar or 64-byte expanded key
+  secretKey: Uint8Array;
+  format: PrivateKeyFormat;
+  kind: PrivateKeyKind;
+  // Non fatal issues the user should know about, e.g. a scalar reduced modulo L
+  warnings: string[];
+};
+
+const L = Point.CURVE().n;
+
+const BASE58_REGEX = /^[1-9A-HJ-NP-Za-km-z]+$/;
+const HEX_REGEX = /^(0x)?[0-9a-fA-F]+$/;
+const BASE64_REGEX = /^[A-Za-z0-9+/]+={0,2}$/;
+
+const isValidKeyLength = (bytes: Uint8Array) =>
+  bytes.length === 32 || bytes.length === 64;
+
+/*
+ * Copies the decoded key out of a (possibly pooled) Buffer and zeroes it.
+ */
+const fromBuffer = (buffer: Buffer) => {
+  const bytes = Uint8Array.from(buffer);
+  buffer.fill(0);
+  return bytes;
+};
+
+/*
+ * Decodes the raw input into bytes, detecting the encoding. Base58 is tried
+ * before base64 since an unpadded base64 string can also be valid base58.
+ */
+function decodePrivateKey(input: string): {
+  bytes: Uint8Array;
+  format: PrivateKeyFormat;
+} {
+  if (input.startsWith("[")) {
+    let values: unknown;
+    try {
+      values = JSON.parse(input);
+    } catch (e) {
+      throw new Error("Invalid JSON byte array");
+    }
+
+    if (
+      !Array.isArray(values) ||
+      !values.every((v) => Number.isInteger(v) && v >= 0 && v <= 255)
+    ) {
+      throw new Error("JSON private key must be an array of bytes (0-255)");
+    }
+
+    return { bytes: Uint8Array.from(values), format: "json" };
+  }
+
+  if (HEX_REGEX.test(input)) {
+    const hex = input.replace(/^0x/, "");
+    if (hex.length === 64 || hex.length === 128) {
+      return { bytes: fromBuffer(Buffer.from(hex, "hex")), format: "hex" };
+    }
+  }
+
+  if (BASE58_REGEX.test(input)) {
+    const bytes = bs58.default.decode(input);
+    if (isValidKeyLength(bytes)) {
+      return { bytes, format: "base58" };
+    }
+    bytes.fill(0);
+  }
+
+  if (BASE64_REGEX.test(input)) {
+    const bytes = fromBuffer(Buffer.from(input, "base64"));
+    if (isValidKeyLength(bytes)) {
+      return { bytes, format: "base64" };
+    }
+    bytes.fill(0);
+  }
+
+  throw new Error(
+    "Unrecognized private key format. Expected a 32 or 64 byte key as base58, hex, base64 or a JSON byte array"
+  );
+}
+
+/*
+ * Reads the first 32 bytes of the key as a little-endian scalar.
+ */
+function scalarFromBytes(bytes: Uint8Array): bigint {
+  let scalar = BigInt(0);
+  for (let i = 31; i >= 0; i--) {
+    scalar = (scalar << BigInt(8)) + BigInt(bytes[i]);
+  }
+  return scalar;
+}
+
+/*
+ * Parses a private key in any supported format and validates the scalar.
+ */
+export function parsePrivateKey(privateKey: string): ParsedPrivateKey {
+  const input = privateKey.trim();
+  if (!input) {
+    throw new Error("Private key is empty");
+  }
+
+  const { bytes, format } = decodePrivateKey(input);
+  if (!isValidKeyLength(bytes)) {
+    bytes.fill(0);
+    throw new Error(
+      `Invalid private key length: expected 32 or 64 bytes, got ${bytes.length}`
+    );
+  }
+
+  const scalar = scalarFromBytes(bytes);
+  if (scalar % L === BigInt(0)) {
+    bytes.fill(0);
+    throw new Error("Invalid private key: the scalar is zero modulo L");
+  }
+
+  let kind: PrivateKeyKind = "scalar";
+  let secretKey = bytes;
+  if (bytes.length === 64) {
+    // A Solana keypair stores the public key in the second half, while an
+    // expanded key stores the nonce prefix there.
+    const publicKey = getPublicKey(bytes);
+    const isKeypair = publicKey.every((v, i) => v === bytes[32 + i]);
+
+    kind = isKeypair ? "keypair" : "expanded";
+    if (isKeypair) {
+      secretKey = bytes.slice(0, 32);
+      bytes.fill(0);
+    }
+  }
+
+  // Expanded keys are clamped, which sets bit 254 and so always puts the
+  // scalar above L; only a raw scalar that large hints at a bad export.
+  const warnings: string[] = [];
+  if (kind === "scalar" && scalar >= L) {
+    warnings.push(
+      "The scalar is not below the curve order L and will be reduced modulo L. Check the key was exported correctly."
+    );
+  }
+
+  return { secretKey, format, kind, warnings };
+}
+
+/*
+ * Returns the key bytes accepted by the ed25119-scalar module, parsing the
+ * key first when given as a string.
+ */
+export function toSecretKey(privateKey: PrivateKeyInput): Uint8Array {
+  if (typeof privateKey === "string") {
+    return parsePrivateKey(privateKey).secretKey;
+  }
+
+  if (!isValidKeyLength(privateKey)) {
+    throw new Error(
+      `Invalid private key length: expected 32 or 64 bytes, got ${privateKey.length}`
+    );
+  }
+  return privateKey;
+}
+
+/*
+ * Runs fn with the key bytes. Keys given as a string are parsed into a
+ * temporary buffer which is zeroed once fn settles; byte keys are passed
+ * through and left to their owner.
+ */
+export async function withSecretKey<T>(
+  privateKey: PrivateKeyInput,
+  fn: (secretKey: Uint8Array) => Promise<T>
+): Promise<T> {
+  const secretKey = toSecretKey(privateKey);
+  try {
+    return await fn(secretKey);
+  } finally {
+    if (typeof privateKey === "string") {
+      secretKey.fill(0);
+    }
+  }
+}
@@ -0,0 +1,323 @@
+/*
+ * Password-encrypted keystore for ed25519-scalar private keys.
+ *
+ * The private key is encrypted with AES-GCM using a key derived from the
+ * password with PBKDF2-SHA256, both via WebCrypto, and the encrypted keystore
+ * is persisted in IndexedDB. Decrypted keys only ever live in memory.
+ */
+
+import * as bs58 from "bs58";
+import { getPublicKeyAsync } from "../ed25119-scalar";
+
+const DB_NAME = "ed25519-scalar-wallet";
+const DB_VERSION = 1;
+const STORE_NAME = "keystores";
+
+const KEYSTORE_VERSION = 1;
+const PBKDF2_ITERATIONS = 600000;
+// Upper bound for keystores read from backups, so a crafted file cannot
+// stall the browser deriving its key
+const MAX_PBKDF2_ITERATIONS = 10000000;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+export type EncryptedKeystore = {
+  version: number;
+  // Solana address of the encrypted key, also bound as AES-GCM additional data
+  address: string;
+  // User supplied account name, not encrypted
+  label?: string;
+  kdf: {
+    name: "PBKDF2";
+    hash: "SHA-256";
+    iterations: number;
+    salt: string; // base64
+  };
+  cipher: {
+    name: "AES-GCM";
+    iv: string; // base64
+  };
+  ciphertext: string; // base64
+  createdAt: string;
+};
+
+const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString("base64");
+const fromBase64 = (value: string) =>
+  Uint8Array.from(Buffer.from(value, "base64"));
+const randomBytes = (length: number) =>
+  crypto.getRandomValues(new Uint8Array(length));
+
+/*
+ * Derives the AES-GCM key from the password.
+ */
+async function deriveKey(
+  password: string,
+  salt: BufferSource,
+  iterations: number
+): Promise<CryptoKey> {
+  const passwordKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    passwordKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/*
+ * Encrypts the private key bytes with the given password.
+ */
+export async function createKeystore(
+  secretKey: Uint8Array,
+  address: string,
+  password: string,
+  label?: string
+): Promise<EncryptedKeystore> {
+  if (!password) {
+    throw new Error("A password is required to encrypt the keystore");
+  }
+
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+
+  // WebCrypto needs an ArrayBuffer backed copy, wiped once encrypted
+  const plaintext = Uint8Array.from(secretKey);
+  let ciphertext: ArrayBuffer;
+  try {
+    ciphertext = await crypto.subtle.encrypt(
+      {
+        name: "AES-GCM",
+        iv,
+        additionalData: new TextEncoder().encode(address),
+      },
+      key,
+      plaintext
+    );
+  } finally {
+    plaintext.fill(0);
+  }
+
+  return {
+    version: KEYSTORE_VERSION,
+    address,
+    label,
+    kdf: {
+      name: "PBKDF2",
+      hash: "SHA-256",
+      iterations: PBKDF2_ITERATIONS,
+      salt: toBase64(salt),
+    },
+    cipher: { name: "AES-GCM", iv: toBase64(iv) },
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/*
+ * Decrypts the private key bytes from the keystore, checking that they are
+ * the key of the keystore's address.
+ */
+export async function decryptKeystore(
+  keystore: EncryptedKeystore,
+  password: string
+): Promise<Uint8Array> {
+  const key = await deriveKey(
+    password,
+    fromBase64(keystore.kdf.salt),
+    keystore.kdf.iterations
+  );
+
+  let secretKeyBytes: Uint8Array;
+  try {
+    const secretKey = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: fromBase64(keystore.cipher.iv),
+        additionalData: new TextEncoder().encode(keystore.address),
+      },
+      key,
+      fromBase64(keystore.ciphertext)
+    );
+    secretKeyBytes = new Uint8Array(secretKey);
+  } catch (e) {
+    // AES-GCM authentication fails for a wrong password or a tampered keystore
+    throw new Error("Incorrect password");
+  }
+
+  const address = bs58.default.encode(await getPublicKeyAsync(secretKeyBytes));
+  if (address !== keystore.address) {
+    secretKeyBytes.fill(0);
+    throw new Error(
+      `The keystore for ${keystore.address} holds the key of ${address}`
+    );
+  }
+  return secretKeyBytes;
+}
+
+/*
+ * Decrypts every keystore sharing the password, keyed by address. Keystores
+ * encrypted under a different password, e.g. restored from another backup,
+ * stay locked and their addresses are returned in failed.
+ */
+export async function unlockKeystores(
+  keystores: EncryptedKeystore[],
+  password: string
+): Promise<{
+  unlocked: { [address: string]: Uint8Array };
+  failed: string[];
+}> {
+  const unlocked: { [address: string]: Uint8Array } = {};
+  const failed: string[] = [];
+
+  await Promise.all(
+    keystores.map(async (keystore) => {
+      try {
+        unlocked[keystore.address] = await decryptKeystore(keystore, password);
+      } catch (e) {
+        failed.push(keystore.address);
+      }
+    })
+  );
+
+  if (Object.keys(unlocked).length === 0) {
+    throw new Error("Incorrect password");
+  }
+  return { unlocked, failed };
+}
+
+/*
+ * Re-encrypts the keystore under a new password.
+ */
+export async function changeKeystorePassword(
+  keystore: EncryptedKeystore,
+  oldPassword: string,
+  newPassword: string
+): Promise<EncryptedKeystore> {
+  const secretKey = await decryptKeystore(keystore, oldPassword);
+  try {
+    const updated = await createKeystore(
+      secretKey,
+      keystore.address,
+      newPassword,
+      keystore.label
+    );
+    return { ...updated, createdAt: keystore.createdAt };
+  } finally {
+    secretKey.fill(0);
+  }
+}
+
+/*
+ * Serializes the keystores into an encrypted backup file body.
+ */
+export function exportKeystoreBackup(keystores: EncryptedKeystore[]): string {
+  return JSON.stringify(keystores, null, 2);
+}
+
+/*
+ * Parses and validates an encrypted backup file body, holding either a
+ * single keystore or a list of keystores.
+ */
+export function parseKeystoreBackup(backup: string): EncryptedKeystore[] {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(backup);
+  } catch (e) {
+    throw new Error("Backup file is not valid JSON");
+  }
+
+  const keystores: any[] = Array.isArray(parsed) ? parsed : [parsed];
+  if (keystores.length === 0) {
+    throw new Error("Backup file does not contain any keystores");
+  }
+  return keystores.map(validateKeystore);
+}
+
+/*
+ * Checks the shape of a keystore read from an untrusted source.
+ */
+function validateKeystore(keystore: any): EncryptedKeystore {
+  if (
+    keystore?.version !== KEYSTORE_VERSION ||
+    typeof keystore.address !== "string" ||
+    keystore.kdf?.name !== "PBKDF2" ||
+    keystore.kdf?.hash !== "SHA-256" ||
+    !Number.isInteger(keystore.kdf?.iterations) ||
+    keystore.kdf.iterations < PBKDF2_ITERATIONS ||
+    keystore.kdf.iterations > MAX_PBKDF2_ITERATIONS ||
+    typeof keystore.kdf?.salt !== "string" ||
+    keystore.cipher?.name !== "AES-GCM" ||
+    typeof keystore.cipher?.iv !== "string" ||
+    typeof keystore.ciphertext !== "string" ||
+    (keystore.label !== undefined && typeof keystore.label !== "string")
+  ) {
+    throw new Error("Backup file is not a supported encrypted keystore");
+  }
+
+  return keystore as EncryptedKeystore;
+}
+
+/*
+ * Opens the wallet database, creating the keystore store on first use.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "address" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/*
+ * Runs a single request against the keystore store.
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/*
+ * Persists the keystore, replacing any keystore for the same address.
+ */
+export async function saveKeystore(keystore: EncryptedKeystore): Promise<void> {
+  await withStore("readwrite", (store) => store.put(keystore));
+}
+
+/*
+ * Fetches all persisted keystores.
+ */
+export async function getKeystores(): Promise<EncryptedKeystore[]> {
+  return withStore<EncryptedKeystore[]>("readonly", (store) => store.getAll());
+}
+
+/*
+ * Deletes the keystore for the given address.
+ */
+export async function deleteKeystore(address: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(address));
+}
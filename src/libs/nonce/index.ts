@@ -0,0 +1,181 @@
+/*
+ * Helper functions for durable nonce accounts.
+ *
+ * A transaction using a durable nonce replaces the recent blockhash with the
+ * value stored in a nonce account and starts with an AdvanceNonceAccount
+ * instruction. It stays valid until the nonce is advanced, so it can be
+ * signed offline or wait for approval without expiring.
+ *
+ * Each wallet address gets one nonce account, derived from the address with
+ * a fixed seed, so it can be found again without storing anything.
+ */
+
+import {
+  Connection,
+  NONCE_ACCOUNT_LENGTH,
+  NonceAccount,
+  NonceInformation,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+
+const NONCE_ACCOUNT_SEED = "durable-nonce";
+
+// Index of the AdvanceNonceAccount instruction in the System Program
+const ADVANCE_NONCE_ACCOUNT = 4;
+
+/*
+ * Derives the address of the nonce account of the given authority.
+ */
+export async function getNonceAccountAddress(
+  authority: PublicKey
+): Promise<PublicKey> {
+  return PublicKey.createWithSeed(
+    authority,
+    NONCE_ACCOUNT_SEED,
+    SystemProgram.programId
+  );
+}
+
+/*
+ * Fetches and decodes the nonce account of the given authority, or returns
+ * null when it has not been created.
+ */
+export async function getNonceAccount(
+  connection: Connection,
+  authority: PublicKey
+): Promise<{
+  address: PublicKey;
+  account: NonceAccount;
+  lamports: number;
+  slot: number;
+} | null> {
+  const address = await getNonceAccountAddress(authority);
+  const { context, value } = await connection.getAccountInfoAndContext(
+    address,
+    "confirmed"
+  );
+  if (!value) {
+    return null;
+  }
+  if (
+    !value.owner.equals(SystemProgram.programId) ||
+    value.data.length !== NONCE_ACCOUNT_LENGTH
+  ) {
+    throw new Error(`Account ${address.toBase58()} is not a nonce account`);
+  }
+
+  return {
+    address,
+    account: NonceAccount.fromAccountData(value.data),
+    lamports: value.lamports,
+    slot: context.slot,
+  };
+}
+
+/*
+ * Returns the nonce to use in place of a recent blockhash, along with the
+ * AdvanceNonceAccount instruction that must come first in the transaction.
+ */
+export async function getDurableNonce(
+  connection: Connection,
+  authority: PublicKey
+): Promise<NonceInformation & { minContextSlot: number }> {
+  const nonceAccount = await getNonceAccount(connection, authority);
+  if (!nonceAccount) {
+    throw new Error(
+      `${authority.toBase58()} has no durable nonce account. Create one first.`
+    );
+  }
+  if (!nonceAccount.account.authorizedPubkey.equals(authority)) {
+    throw new Error(
+      `Nonce account ${nonceAccount.address.toBase58()} is not controlled by ${authority.toBase58()}`
+    );
+  }
+
+  return {
+    nonce: nonceAccount.account.nonce,
+    nonceInstruction: SystemProgram.nonceAdvance({
+      noncePubkey: nonceAccount.address,
+      authorizedPubkey: authority,
+    }),
+    minContextSlot: nonceAccount.slot,
+  };
+}
+
+/*
+ * Creates the instructions funding and initializing the nonce account of the
+ * authority, which also pays for it.
+ */
+export async function getCreateNonceAccountInstructions(
+  connection: Connection,
+  authority: PublicKey
+): Promise<TransactionInstruction[]> {
+  const noncePubkey = await getNonceAccountAddress(authority);
+  const lamports = await connection.getMinimumBalanceForRentExemption(
+    NONCE_ACCOUNT_LENGTH
+  );
+
+  return SystemProgram.createNonceAccount({
+    fromPubkey: authority,
+    noncePubkey,
+    authorizedPubkey: authority,
+    lamports,
+    basePubkey: authority,
+    seed: NONCE_ACCOUNT_SEED,
+  }).instructions;
+}
+
+/*
+ * Creates the instruction withdrawing the whole balance of the nonce account
+ * back to the authority, which closes it.
+ */
+export async function getCloseNonceAccountInstruction(
+  connection: Connection,
+  authority: PublicKey
+): Promise<TransactionInstruction> {
+  const nonceAccount = await getNonceAccount(connection, authority);
+  if (!nonceAccount) {
+    throw new Error(`${authority.toBase58()} has no durable nonce account`);
+  }
+
+  return SystemProgram.nonceWithdraw({
+    noncePubkey: nonceAccount.address,
+    authorizedPubkey: authority,
+    toPubkey: authority,
+    lamports: nonceAccount.lamports,
+  });
+}
+
+/*
+ * Returns the nonce account advanced by a durable nonce transaction, or null
+ * for a transaction using a recent blockhash.
+ */
+export function getTransactionNonceAccount(
+  transaction: Transaction | VersionedTransaction
+): PublicKey | null {
+  const message =
+    transaction instanceof VersionedTransaction
+      ? transaction.message
+      : transaction.compileMessage();
+
+  const instruction = message.compiledInstructions[0];
+  if (
+    !instruction ||
+    !message.staticAccountKeys[instruction.programIdIndex].equals(
+      SystemProgram.programId
+    ) ||
+    instruction.data.length < 4 ||
+    instruction.data[0] !== ADVANCE_NONCE_ACCOUNT ||
+    instruction.data[1] !== 0 ||
+    instruction.data[2] !== 0 ||
+    instruction.data[3] !== 0
+  ) {
+    return null;
+  }
+
+  return message.staticAccountKeys[instruction.accountKeyIndexes[0]];
+}
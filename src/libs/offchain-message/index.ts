@@ -0,0 +1,178 @@
+/*
+ * Helper functions for the Solana off-chain message signing format.
+ *
+ * The message is wrapped in a header starting with the "\xffsolana offchain"
+ * signing domain before it is signed. A transaction message can never start
+ * with 0xff, so a signature over an off-chain message cannot be replayed as a
+ * transaction signature, whatever text the message holds.
+ *
+ * Header (version 0):
+ *   signing domain (16) || version (1) || application domain (32) ||
+ *   message format (1) || signer count (1) || signers (32 each) ||
+ *   message length (2, little-endian) || message
+ */
+
+import { PublicKey } from "@solana/web3.js";
+import * as bs58 from "bs58";
+import { signAsync, verifyAsync } from "../ed25119-scalar";
+import { PrivateKeyInput, withSecretKey } from "../keys";
+
+const SIGNING_DOMAIN = Buffer.concat([
+  Buffer.from([0xff]),
+  Buffer.from("solana offchain", "ascii"),
+]);
+const HEADER_VERSION = 0;
+const APPLICATION_DOMAIN_LENGTH = 32;
+
+// Messages in the first two formats must fit in a packet, for hardware wallets
+const MAX_PACKET_LENGTH = 1232;
+const MAX_MESSAGE_LENGTH = 65535;
+
+export type OffchainMessageFormat = 0 | 1 | 2;
+
+export const OFFCHAIN_MESSAGE_FORMATS: { [format: number]: string } = {
+  0: "Restricted ASCII",
+  1: "Limited UTF-8",
+  2: "Extended UTF-8",
+};
+
+export type OffchainMessage = {
+  // Up to 32 bytes of text identifying the requesting application
+  applicationDomain: string;
+  signers: string[];
+  message: string;
+};
+
+// Header length without the signers
+const BASE_HEADER_LENGTH =
+  SIGNING_DOMAIN.length + 1 + APPLICATION_DOMAIN_LENGTH + 1 + 1 + 2;
+
+/*
+ * Picks the most restrictive format the message fits in: printable ASCII,
+ * then UTF-8 fitting in a packet, then UTF-8 up to 65535 bytes.
+ */
+export function getOffchainMessageFormat(
+  message: string,
+  signerCount = 1
+): OffchainMessageFormat {
+  const length = Buffer.byteLength(message, "utf8");
+  if (length === 0) {
+    throw new Error("Message is empty");
+  }
+
+  const fitsInPacket =
+    BASE_HEADER_LENGTH + 32 * signerCount + length <= MAX_PACKET_LENGTH;
+  if (fitsInPacket && /^[\x20-\x7e]*$/.test(message)) {
+    return 0;
+  }
+  if (fitsInPacket) {
+    return 1;
+  }
+  if (length <= MAX_MESSAGE_LENGTH) {
+    return 2;
+  }
+  throw new Error(`Message is longer than ${MAX_MESSAGE_LENGTH} bytes`);
+}
+
+/*
+ * Encodes the application domain text, zero padded to 32 bytes.
+ */
+function encodeApplicationDomain(applicationDomain: string): Buffer {
+  const bytes = Buffer.from(applicationDomain, "utf8");
+  if (bytes.length > APPLICATION_DOMAIN_LENGTH) {
+    throw new Error(
+      `Application domain is longer than ${APPLICATION_DOMAIN_LENGTH} bytes`
+    );
+  }
+  return Buffer.concat([
+    bytes,
+    Buffer.alloc(APPLICATION_DOMAIN_LENGTH - bytes.length),
+  ]);
+}
+
+/*
+ * Serializes the message with its off-chain header. These are the bytes
+ * that are signed.
+ */
+export function serializeOffchainMessage({
+  applicationDomain,
+  signers,
+  message,
+}: OffchainMessage): Uint8Array {
+  if (signers.length === 0 || signers.length > 255) {
+    throw new Error("An off-chain message needs between 1 and 255 signers");
+  }
+  const format = getOffchainMessageFormat(message, signers.length);
+  const body = Buffer.from(message, "utf8");
+
+  const length = Buffer.alloc(2);
+  length.writeUInt16LE(body.length);
+
+  return Buffer.concat([
+    SIGNING_DOMAIN,
+    Buffer.from([HEADER_VERSION]),
+    encodeApplicationDomain(applicationDomain),
+    Buffer.from([format, signers.length]),
+    ...signers.map((signer) => new PublicKey(signer).toBuffer()),
+    length,
+    body,
+  ]);
+}
+
+/*
+ * Decodes a signature given as base58, or as hex with an optional 0x prefix.
+ */
+export function parseSignature(signature: string): Uint8Array {
+  const value = signature.trim();
+  let bytes: Uint8Array;
+  try {
+    bytes = /^(0x)?[0-9a-f]{128}$/i.test(value)
+      ? Buffer.from(value.replace(/^0x/i, ""), "hex")
+      : bs58.default.decode(value);
+  } catch (e) {
+    throw new Error("Signature is not valid base58 or hex");
+  }
+  if (bytes.length !== 64) {
+    throw new Error("Signature must be 64 bytes");
+  }
+  return bytes;
+}
+
+/*
+ * Signs an off-chain message with the Ed25519 Key of one of its signers.
+ * Returns the signature as base58.
+ */
+export async function signOffchainMessage(
+  scalarKey: PrivateKeyInput,
+  signerAddress: string,
+  message: OffchainMessage
+): Promise<string> {
+  if (!message.signers.includes(signerAddress)) {
+    throw new Error(`${signerAddress} is not a signer of the message`);
+  }
+
+  const serialized = serializeOffchainMessage(message);
+  const signature = await withSecretKey(scalarKey, (secretKey) =>
+    signAsync(serialized, secretKey)
+  );
+  return bs58.default.encode(signature);
+}
+
+/*
+ * Verifies the signature of one of the signers over an off-chain message.
+ */
+export async function verifyOffchainMessage(
+  signature: string,
+  signerAddress: string,
+  message: OffchainMessage
+): Promise<boolean> {
+  if (!message.signers.includes(signerAddress)) {
+    return false;
+  }
+
+  return verifyAsync(
+    parseSignature(signature),
+    serializeOffchainMessage(message),
+    new PublicKey(signerAddress).toBytes()
+  );
+}
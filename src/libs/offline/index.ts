@@ -0,0 +1,163 @@
+/*
+ * Helper functions for the offline (air-gapped) signing workflow:
+ *
+ * 1. An online instance builds the unsigned transaction and exports it.
+ * 2. An offline instance holding the key decodes it for review and signs it,
+ *    exporting only the signature.
+ * 3. The online instance adds the signature and broadcasts the transaction.
+ */
+
+import { PublicKey, Transaction, VersionedTransaction } from "@solana/web3.js";
+import * as bs58 from "bs58";
+import { verifyAsync } from "../ed25119-scalar";
+import { PrivateKeyInput } from "../keys";
+import { DecodedInstruction } from "../instructions";
+import {
+  getTransactionMessage,
+  isRequiredSigner,
+  signTransaction,
+} from "../solana";
+
+export type TransactionEncoding = "base64" | "base58";
+
+/*
+ * Serializes a legacy or versioned transaction, signed, partially signed or
+ * unsigned.
+ */
+export function transactionToBytes(
+  transaction: Transaction | VersionedTransaction
+): Uint8Array {
+  return transaction instanceof VersionedTransaction
+    ? transaction.serialize()
+    : transaction.serialize({
+        requireAllSignatures: false,
+        verifySignatures: false,
+      });
+}
+
+/*
+ * Deserializes a transaction, keeping legacy transactions on the legacy
+ * Transaction type and v0 transactions on VersionedTransaction. The bytes
+ * must hold exactly one transaction.
+ */
+export function transactionFromBytes(
+  bytes: Uint8Array
+): Transaction | VersionedTransaction {
+  const transaction = VersionedTransaction.deserialize(bytes);
+  if (transaction.serialize().length !== bytes.length) {
+    throw new Error("Unexpected bytes after the transaction");
+  }
+
+  return transaction.version === "legacy"
+    ? Transaction.from(bytes)
+    : transaction;
+}
+
+/*
+ * Exports a legacy or versioned transaction, signed, partially signed or
+ * unsigned, as base64 or base58.
+ */
+export function serializeTransaction(
+  transaction: Transaction | VersionedTransaction,
+  encoding: TransactionEncoding = "base64"
+): string {
+  const bytes = transactionToBytes(transaction);
+  return encoding === "base58"
+    ? bs58.default.encode(bytes)
+    : Buffer.from(bytes).toString("base64");
+}
+
+/*
+ * Decodes a base64 or base58 transaction. Short strings can be valid in both
+ * alphabets, so the encoding is the one whose bytes deserialize to a
+ * transaction of exactly that length.
+ */
+export function decodeTransaction(serialized: string): {
+  transaction: Transaction | VersionedTransaction;
+  encoding: TransactionEncoding;
+} {
+  const decoders: [TransactionEncoding, (value: string) => Uint8Array][] = [
+    ["base64", (value) => Buffer.from(value, "base64")],
+    ["base58", (value) => bs58.default.decode(value)],
+  ];
+
+  for (const [encoding, decode] of decoders) {
+    try {
+      const bytes = Buffer.from(decode(serialized.trim()));
+      return { transaction: transactionFromBytes(bytes), encoding };
+    } catch (e) {
+      // Try the next encoding
+    }
+  }
+
+  throw new Error("Not a valid base64 or base58 encoded transaction");
+}
+
+/*
+ * Imports a base64 or base58 transaction, keeping legacy transactions on the
+ * legacy Transaction type and v0 transactions on VersionedTransaction.
+ */
+export function deserializeTransaction(
+  serialized: string
+): Transaction | VersionedTransaction {
+  return decodeTransaction(serialized).transaction;
+}
+
+/*
+ * Signs an exported transaction with the Ed25519 Key and returns the
+ * signature as base58, to be carried back to the online instance, with the
+ * decoded instructions that were signed.
+ */
+export async function signTransactionOffline(
+  scalarKey: PrivateKeyInput,
+  signerAddress: string,
+  serialized: string
+): Promise<{ signature: string; instructions: DecodedInstruction[] }> {
+  const transaction = deserializeTransaction(serialized);
+  const { signature, instructions } = await signTransaction(
+    scalarKey,
+    signerAddress,
+    transaction
+  );
+  return { signature: bs58.default.encode(signature), instructions };
+}
+
+/*
+ * Adds a signature produced offline to the transaction, after checking it
+ * signs this very transaction for the given signer.
+ */
+export async function addOfflineSignature(
+  transaction: Transaction | VersionedTransaction,
+  signerAddress: string,
+  signature: string
+): Promise<void> {
+  const signerPublicKey = new PublicKey(signerAddress);
+  if (!isRequiredSigner(transaction, signerAddress)) {
+    throw new Error(
+      `Transaction does not require a signature from ${signerAddress}`
+    );
+  }
+
+  let signatureBytes: Uint8Array;
+  try {
+    signatureBytes = bs58.default.decode(signature.trim());
+  } catch (e) {
+    throw new Error("Signature is not valid base58");
+  }
+  if (signatureBytes.length !== 64) {
+    throw new Error("Signature must be 64 bytes");
+  }
+
+  const isValid = await verifyAsync(
+    signatureBytes,
+    getTransactionMessage(transaction),
+    signerPublicKey.toBytes()
+  );
+  if (!isValid) {
+    throw new Error(
+      `Signature is not valid for this transaction and signer ${signerAddress}`
+    );
+  }
+
+  transaction.addSignature(signerPublicKey, Buffer.from(signatureBytes));
+}
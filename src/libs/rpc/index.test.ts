@@ -0,0 +1,273 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  createRpcClient,
+  getConnection,
+  getRpcClient,
+  RpcHttpError,
+  RpcNetworkError,
+  RpcRateLimitError,
+  RpcResponseError,
+  RpcTransport,
+  RpcTransportResponse,
+  RpcUnavailableError,
+  setRpcTransport,
+} from ".";
+import { Cluster } from "../cluster";
+
+const PRIMARY = "https://primary.example";
+const FALLBACK = "https://fallback.example";
+
+const cluster: Cluster = {
+  name: "custom",
+  network: "devnet",
+  rpcUrl: PRIMARY,
+  fallbackRpcUrls: [FALLBACK],
+  headers: { "x-api-key": "secret" },
+};
+const singleEndpoint: Cluster = { ...cluster, fallbackRpcUrls: [] };
+
+const respond = (
+  status: number,
+  body = "",
+  headers: { [name: string]: string } = {}
+): RpcTransportResponse => ({
+  status,
+  statusText: "",
+  headers: { get: (name) => headers[name] ?? null },
+  text: async () => body,
+});
+
+const result = (value: unknown) =>
+  respond(200, JSON.stringify({ jsonrpc: "2.0", id: 1, result: value }));
+
+type Answer = RpcTransportResponse | Error;
+
+/*
+ * In-memory transport answering each endpoint from its list of answers, the
+ * last one repeating. Records the endpoint of every request.
+ */
+function createTransport(answers: { [endpoint: string]: Answer[] }) {
+  const calls: string[] = [];
+  const transport: RpcTransport = async (url) => {
+    calls.push(url);
+    const queue = answers[url];
+    const answer = queue.length > 1 ? queue.shift()! : queue[0];
+    if (answer instanceof Error) {
+      throw answer;
+    }
+    return answer;
+  };
+  return { transport, calls };
+}
+
+/*
+ * Creates a client whose waits are recorded instead of slept.
+ */
+function createTestClient(
+  testCluster: Cluster,
+  answers: { [endpoint: string]: Answer[] }
+) {
+  const { transport, calls } = createTransport(answers);
+  const delays: number[] = [];
+  const client = createRpcClient(testCluster, {
+    transport,
+    sleep: async (ms) => {
+      delays.push(ms);
+    },
+  });
+  return { client, calls, delays };
+}
+
+/*
+ * Checks that the request fails with the error class, and returns the error.
+ */
+async function expectError<T>(
+  request: Promise<unknown>,
+  type: new (...args: any[]) => T
+): Promise<T> {
+  const error = await request.then(
+    () => null,
+    (e: unknown) => e
+  );
+  expect(error).toBeInstanceOf(type);
+  return error as T;
+}
+
+describe("retries", () => {
+  test("retry a failing endpoint with exponential backoff", async () => {
+    const { client, calls, delays } = createTestClient(cluster, {
+      [PRIMARY]: [respond(500), respond(503), result(42)],
+    });
+
+    expect(await client.request("getSlot")).toBe(42);
+    expect(calls).toEqual([PRIMARY, PRIMARY, PRIMARY]);
+    expect(delays).toEqual([500, 1000]);
+  });
+
+  test("retry network errors", async () => {
+    const { client, delays } = createTestClient(cluster, {
+      [PRIMARY]: [new Error("connection reset"), result(42)],
+    });
+
+    expect(await client.request("getSlot")).toBe(42);
+    expect(delays).toEqual([500]);
+  });
+
+  test("wait as long as Retry-After asks", async () => {
+    const { client, calls, delays } = createTestClient(cluster, {
+      [PRIMARY]: [respond(429, "", { "Retry-After": "2" }), result(42)],
+    });
+
+    expect(await client.request("getSlot")).toBe(42);
+    expect(calls).toEqual([PRIMARY, PRIMARY]);
+    expect(delays).toEqual([2000]);
+  });
+
+  test("read Retry-After given as a date", async () => {
+    const retryAt = new Date(Date.now() + 60000).toUTCString();
+    const { client, calls, delays } = createTestClient(cluster, {
+      [PRIMARY]: [respond(429, "", { "Retry-After": retryAt })],
+      [FALLBACK]: [result(42)],
+    });
+
+    // Longer than the longest wait, so the fallback is used at once
+    expect(await client.request("getSlot")).toBe(42);
+    expect(calls).toEqual([PRIMARY, FALLBACK]);
+    expect(delays).toEqual([]);
+  });
+
+  test("do not retry client errors", async () => {
+    const { client, calls } = createTestClient(singleEndpoint, {
+      [PRIMARY]: [respond(401)],
+    });
+
+    await expect(client.request("getSlot")).rejects.toThrow(RpcHttpError);
+    expect(calls).toEqual([PRIMARY]);
+  });
+});
+
+describe("failover", () => {
+  test("move to the fallback once the endpoint keeps failing", async () => {
+    const { client, calls, delays } = createTestClient(cluster, {
+      [PRIMARY]: [respond(502)],
+      [FALLBACK]: [result(42)],
+    });
+
+    expect(await client.request("getSlot")).toBe(42);
+    expect(calls).toEqual([PRIMARY, PRIMARY, PRIMARY, FALLBACK]);
+    expect(delays).toEqual([500, 1000]);
+  });
+
+  test("stay on the endpoint that answered", async () => {
+    const { client, calls } = createTestClient(cluster, {
+      [PRIMARY]: [respond(502)],
+      [FALLBACK]: [result(42)],
+    });
+
+    await client.request("getSlot");
+    calls.length = 0;
+    expect(await client.request("getSlot")).toBe(42);
+    expect(calls).toEqual([FALLBACK]);
+  });
+});
+
+describe("errors", () => {
+  test("RpcHttpError for an HTTP error status", async () => {
+    const { client } = createTestClient(singleEndpoint, {
+      [PRIMARY]: [respond(404)],
+    });
+
+    const error = await expectError(client.request("getSlot"), RpcHttpError);
+    expect(error.status).toBe(404);
+    expect(error.endpoint).toBe(PRIMARY);
+  });
+
+  test("RpcRateLimitError once the rate limit outlasts the retries", async () => {
+    const { client, calls, delays } = createTestClient(singleEndpoint, {
+      [PRIMARY]: [respond(429)],
+    });
+
+    const error = await expectError(
+      client.request("getSlot"),
+      RpcRateLimitError
+    );
+    expect(error).toBeInstanceOf(RpcHttpError);
+    expect(error.status).toBe(429);
+    expect(error.retryAfterMs).toBeNull();
+    expect(calls).toHaveLength(3);
+    expect(delays).toEqual([500, 1000]);
+  });
+
+  test("RpcResponseError for a JSON-RPC error, without retrying", async () => {
+    const body = JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      error: { code: -32602, message: "Invalid params", data: { at: 0 } },
+    });
+    const { client, calls } = createTestClient(cluster, {
+      [PRIMARY]: [respond(200, body)],
+    });
+
+    const error = await expectError(
+      client.request("getSlot"),
+      RpcResponseError
+    );
+    expect(error.code).toBe(-32602);
+    expect(error.data).toEqual({ at: 0 });
+    expect(error.message).toBe("RPC error -32602: Invalid params");
+    expect(calls).toEqual([PRIMARY]);
+  });
+
+  test("RpcUnavailableError when no endpoint answers", async () => {
+    const { client, calls } = createTestClient(cluster, {
+      [PRIMARY]: [new Error("connection refused")],
+      [FALLBACK]: [respond(401)],
+    });
+
+    const error = await expectError(
+      client.request("getSlot"),
+      RpcUnavailableError
+    );
+    expect(error.errors).toHaveLength(2);
+    expect(error.errors[0]).toBeInstanceOf(RpcNetworkError);
+    expect(error.errors[1]).toBeInstanceOf(RpcHttpError);
+    expect(error.endpoint).toBe(FALLBACK);
+    expect(calls).toEqual([PRIMARY, PRIMARY, PRIMARY, FALLBACK]);
+  });
+
+  test("the endpoint's own error with a single endpoint", async () => {
+    const { client } = createTestClient(singleEndpoint, {
+      [PRIMARY]: [respond(200, "not json")],
+    });
+
+    await expect(client.request("getSlot")).rejects.toThrow(RpcNetworkError);
+  });
+});
+
+describe("shared clients", () => {
+  afterEach(() => setRpcTransport());
+
+  test("use the transport set with setRpcTransport", async () => {
+    const requests: { url: string; body: any; headers: any }[] = [];
+    setRpcTransport(async (url, request) => {
+      const body = JSON.parse(request.body);
+      requests.push({ url, body, headers: request.headers });
+      return respond(
+        200,
+        JSON.stringify({ jsonrpc: "2.0", id: body.id, result: 42 })
+      );
+    });
+
+    expect(await getRpcClient(cluster).request("getSlot")).toBe(42);
+    expect(await getConnection(cluster).getSlot()).toBe(42);
+    expect(requests.map(({ body }) => body.method)).toEqual([
+      "getSlot",
+      "getSlot",
+    ]);
+    expect(requests[0].url).toBe(PRIMARY);
+    expect(requests[0].headers["x-api-key"]).toBe("secret");
+  });
+});
@@ -0,0 +1,347 @@
+/*
+ * Shared JSON-RPC client for the Solana clusters.
+ *
+ * Every request of the wallet goes through one client per cluster, either
+ * directly with request() or through the client's Connection, whose HTTP
+ * calls are routed to the client. The client retries failed requests with
+ * exponential backoff, waits out rate limits, fails over to the cluster's
+ * fallback endpoints, and reports failures as typed errors.
+ *
+ * The HTTP transport is injectable: it defaults to fetch, and tests can set
+ * an in-memory stand-in with setRpcTransport.
+ */
+
+import { Connection, FetchFn } from "@solana/web3.js";
+import { Cluster } from "../cluster";
+
+export type RpcTransportRequest = {
+  method: "POST";
+  headers: { [name: string]: string };
+  body: string;
+};
+
+// The part of a fetch Response used by the client
+export type RpcTransportResponse = {
+  status: number;
+  statusText: string;
+  headers: { get: (name: string) => string | null };
+  text: () => Promise<string>;
+};
+
+export type RpcTransport = (
+  url: string,
+  request: RpcTransportRequest
+) => Promise<RpcTransportResponse>;
+
+export type RpcClientOptions = {
+  transport?: RpcTransport;
+  // Retries of a failed request on each endpoint
+  maxRetries?: number;
+  // First retry delay, doubled on every retry
+  baseDelayMs?: number;
+  // Longest delay to wait on an endpoint, longer rate limits fail over
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+export type RpcClient = {
+  cluster: Cluster;
+  // Connection whose HTTP requests go through the client
+  connection: Connection;
+  request: <T>(method: string, params?: unknown[]) => Promise<T>;
+};
+
+const hostOf = (endpoint: string) => {
+  try {
+    return new URL(endpoint).host;
+  } catch (e) {
+    return endpoint;
+  }
+};
+
+/*
+ * Base class of the RPC errors, naming the endpoint that failed.
+ */
+export class RpcError extends Error {
+  endpoint: string;
+
+  constructor(message: string, endpoint: string) {
+    super(message);
+    this.name = "RpcError";
+    this.endpoint = endpoint;
+    // Keep instanceof working on subclasses of Error when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/*
+ * The endpoint could not be reached, or its response could not be read.
+ */
+export class RpcNetworkError extends RpcError {
+  constructor(endpoint: string, reason: string) {
+    super(`Request to ${hostOf(endpoint)} failed: ${reason}`, endpoint);
+    this.name = "RpcNetworkError";
+  }
+}
+
+/*
+ * The endpoint answered with an HTTP error status.
+ */
+export class RpcHttpError extends RpcError {
+  status: number;
+
+  constructor(endpoint: string, status: number, message?: string) {
+    super(
+      message || `${hostOf(endpoint)} responded with HTTP ${status}`,
+      endpoint
+    );
+    this.name = "RpcHttpError";
+    this.status = status;
+  }
+}
+
+/*
+ * The endpoint is rate limiting the wallet (HTTP 429).
+ */
+export class RpcRateLimitError extends RpcHttpError {
+  // Delay asked for by the Retry-After header, if any
+  retryAfterMs: number | null;
+
+  constructor(endpoint: string, retryAfterMs: number | null) {
+    super(
+      endpoint,
+      429,
+      `${hostOf(endpoint)} is rate limiting requests, try again shortly`
+    );
+    this.name = "RpcRateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/*
+ * The endpoint answered the request with a JSON-RPC error.
+ */
+export class RpcResponseError extends RpcError {
+  code: number;
+  data: unknown;
+
+  constructor(endpoint: string, code: number, message: string, data: unknown) {
+    super(`RPC error ${code}: ${message}`, endpoint);
+    this.name = "RpcResponseError";
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/*
+ * None of the endpoints of the cluster could answer the request.
+ */
+export class RpcUnavailableError extends RpcError {
+  errors: RpcError[];
+
+  constructor(errors: RpcError[]) {
+    super(
+      `No RPC endpoint is available: ${errors
+        .map((error) => error.message)
+        .join("; ")}`,
+      errors[errors.length - 1].endpoint
+    );
+    this.name = "RpcUnavailableError";
+    this.errors = errors;
+  }
+}
+
+const DEFAULT_OPTIONS = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+const defaultTransport: RpcTransport = (url, request) => fetch(url, request);
+
+const defaultSleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+let transport: RpcTransport = defaultTransport;
+const clients: { [key: string]: RpcClient } = {};
+
+/*
+ * Parses the Retry-After header, given in seconds or as a date.
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/*
+ * Whether the request may succeed when tried again on the same endpoint.
+ */
+const isRetryable = (error: RpcError) =>
+  error instanceof RpcNetworkError ||
+  error instanceof RpcRateLimitError ||
+  (error instanceof RpcHttpError &&
+    (error.status >= 500 || error.status === 408));
+
+/*
+ * Creates a client for the endpoints of the cluster. The first endpoint is
+ * preferred; after a failover the client stays on the endpoint that
+ * answered.
+ */
+export function createRpcClient(
+  cluster: Cluster,
+  options: RpcClientOptions = {}
+): RpcClient {
+  const send = options.transport || transport;
+  const maxRetries = options.maxRetries ?? DEFAULT_OPTIONS.maxRetries;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_OPTIONS.baseDelayMs;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_OPTIONS.maxDelayMs;
+  const sleep = options.sleep || defaultSleep;
+
+  const endpoints = [cluster.rpcUrl, ...(cluster.fallbackRpcUrls || [])];
+  let preferred = 0;
+
+  /*
+   * Posts the body to one endpoint, returning the response text or
+   * throwing a typed error.
+   */
+  const post = async (endpoint: string, body: string): Promise<string> => {
+    let response: RpcTransportResponse;
+    let text: string;
+    try {
+      response = await send(endpoint, {
+        method: "POST",
+        headers: { ...cluster.headers, "Content-Type": "application/json" },
+        body,
+      });
+      text = await response.text();
+    } catch (e: any) {
+      throw new RpcNetworkError(endpoint, e?.message || String(e));
+    }
+
+    if (response.status === 429) {
+      throw new RpcRateLimitError(
+        endpoint,
+        parseRetryAfter(response.headers.get("Retry-After"))
+      );
+    }
+    if (response.status < 200 || response.status >= 300) {
+      throw new RpcHttpError(endpoint, response.status);
+    }
+    return text;
+  };
+
+  /*
+   * Posts the body, retrying each endpoint with backoff before failing
+   * over to the next one.
+   */
+  const postWithRetries = async (body: string): Promise<string> => {
+    const errors: RpcError[] = [];
+    for (let offset = 0; offset < endpoints.length; offset++) {
+      const index = (preferred + offset) % endpoints.length;
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const text = await post(endpoints[index], body);
+          preferred = index;
+          return text;
+        } catch (e) {
+          if (!(e instanceof RpcError)) {
+            throw e;
+          }
+
+          const backoff = Math.min(
+            maxDelayMs,
+            baseDelayMs * Math.pow(2, attempt)
+          );
+          const delay =
+            e instanceof RpcRateLimitError && e.retryAfterMs !== null
+              ? e.retryAfterMs
+              : backoff;
+          if (!isRetryable(e) || attempt >= maxRetries || delay > maxDelayMs) {
+            errors.push(e);
+            break;
+          }
+          await sleep(delay);
+        }
+      }
+    }
+
+    // With a single endpoint its own error is the most useful
+    throw errors.length === 1 ? errors[0] : new RpcUnavailableError(errors);
+  };
+
+  let nextId = 1;
+
+  /*
+   * Calls a JSON-RPC method and returns its result.
+   */
+  const request = async <T>(method: string, params: unknown[] = []) => {
+    const text = await postWithRetries(
+      JSON.stringify({ jsonrpc: "2.0", id: nextId++, method, params })
+    );
+
+    let body: any;
+    try {
+      body = JSON.parse(text);
+    } catch (e) {
+      throw new RpcNetworkError(endpoints[preferred], "invalid JSON response");
+    }
+    if (body.error) {
+      throw new RpcResponseError(
+        endpoints[preferred],
+        body.error.code,
+        body.error.message,
+        body.error.data
+      );
+    }
+    return body.result as T;
+  };
+
+  // web3.js only reads the status and text of the response
+  const connectionFetch = async (_: unknown, init?: { body?: unknown }) => {
+    const text = await postWithRetries(String(init?.body));
+    return { ok: true, status: 200, statusText: "OK", text: async () => text };
+  };
+
+  const connection = new Connection(cluster.rpcUrl, {
+    wsEndpoint: cluster.wsUrl,
+    fetch: connectionFetch as unknown as FetchFn,
+    // Rate limits are handled by the client
+    disableRetryOnRateLimit: true,
+  });
+
+  return { cluster, connection, request };
+}
+
+/*
+ * Returns the shared client of the cluster.
+ */
+export function getRpcClient(cluster: Cluster): RpcClient {
+  const key = JSON.stringify(cluster);
+  if (!clients[key]) {
+    clients[key] = createRpcClient(cluster);
+  }
+  return clients[key];
+}
+
+/*
+ * Returns the shared Connection of the cluster.
+ */
+export function getConnection(cluster: Cluster): Connection {
+  return getRpcClient(cluster).connection;
+}
+
+/*
+ * Replaces the transport of the shared clients, e.g. with an in-memory
+ * stand-in in tests. Without a transport, fetch is used again.
+ */
+export function setRpcTransport(newTransport?: RpcTransport) {
+  transport = newTransport || defaultTransport;
+  Object.keys(clients).forEach((key) => delete clients[key]);
+}
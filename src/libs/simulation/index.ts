@@ -0,0 +1,245 @@
+/*
+ * Helper functions for previewing Solana transactions before they are signed.
+ */
+
+import {
+  AccountInfo,
+  PublicKey,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  AccountType,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  getMint,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import { decodeTransactionError } from "../confirmation";
+import {
+  DecodedInstruction,
+  decodeTransactionInstructions,
+  TokenDecimals,
+} from "../instructions";
+import { Cluster } from "../cluster";
+import { getConnection } from "../rpc";
+
+export type SolBalanceChange = {
+  address: string;
+  preLamports: number;
+  postLamports: number;
+};
+
+export type TokenBalanceChange = {
+  // Token account address
+  address: string;
+  owner: string;
+  mint: string;
+  decimals: number;
+  preAmount: bigint;
+  postAmount: bigint;
+};
+
+export type TransactionPreview = {
+  logs: string[];
+  unitsConsumed: number | null;
+  // Simulation error, the transaction would fail if sent as is
+  error: string | null;
+  // Network fee in lamports
+  fee: number | null;
+  solChanges: SolBalanceChange[];
+  tokenChanges: TokenBalanceChange[];
+  // Lamports paid to fund associated token accounts created by the transaction
+  rent: number;
+  instructions: DecodedInstruction[];
+};
+
+type DecodedTokenAccount = {
+  mint: string;
+  owner: string;
+  amount: bigint;
+  programId: PublicKey;
+};
+
+/*
+ * Simulation and fee estimation work on versioned transactions, so legacy
+ * transactions are wrapped around their compiled message.
+ */
+const toVersionedTransaction = (
+  transaction: Transaction | VersionedTransaction
+) =>
+  transaction instanceof VersionedTransaction
+    ? transaction
+    : new VersionedTransaction(transaction.compileMessage());
+
+/*
+ * Decodes the data of an SPL or SPL-22 token account, returning null for
+ * any other kind of account.
+ */
+function decodeTokenAccount(
+  programId: PublicKey,
+  data: Buffer
+): DecodedTokenAccount | null {
+  const isTokenProgram =
+    programId.equals(TOKEN_PROGRAM_ID) ||
+    programId.equals(TOKEN_2022_PROGRAM_ID);
+
+  // SPL-22 accounts with extensions are tagged with their type after the base layout
+  const isTokenAccount =
+    data.length === ACCOUNT_SIZE ||
+    (data.length > ACCOUNT_SIZE && data[ACCOUNT_SIZE] === AccountType.Account);
+
+  if (!isTokenProgram || !isTokenAccount) {
+    return null;
+  }
+
+  const account = AccountLayout.decode(data);
+  return {
+    mint: account.mint.toBase58(),
+    owner: account.owner.toBase58(),
+    amount: account.amount,
+    programId,
+  };
+}
+
+const decodeAccountInfo = (info: AccountInfo<Buffer> | null) =>
+  info ? decodeTokenAccount(info.owner, info.data) : null;
+
+/*
+ * Simulates the unsigned transaction and collects what it would do: logs,
+ * compute units, the network fee, the SOL and token balance changes of
+ * every writable account, and its decoded instructions.
+ */
+export async function previewTransaction(
+  transaction: Transaction | VersionedTransaction,
+  cluster: Cluster
+): Promise<TransactionPreview> {
+  const connection = getConnection(cluster);
+
+  const versionedTransaction = toVersionedTransaction(transaction);
+  const message = versionedTransaction.message;
+
+  // Only writable accounts can change balance
+  const writableKeys = message.staticAccountKeys.filter((_, index) =>
+    message.isAccountWritable(index)
+  );
+  const addresses = writableKeys.map((key) => key.toBase58());
+
+  const [preAccounts, simulation, fee] = await Promise.all([
+    connection.getMultipleAccountsInfo(writableKeys),
+    connection.simulateTransaction(versionedTransaction, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      accounts: { encoding: "base64", addresses },
+    }),
+    connection.getFeeForMessage(message),
+  ]);
+
+  const postAccounts = (simulation.value.accounts || []).map((account) =>
+    account
+      ? {
+          ...account,
+          owner: new PublicKey(account.owner),
+          data: Buffer.from(account.data[0], "base64"),
+        }
+      : null
+  );
+
+  const solChanges: SolBalanceChange[] = [];
+  const tokenAccounts: {
+    address: string;
+    pre: DecodedTokenAccount | null;
+    post: DecodedTokenAccount | null;
+  }[] = [];
+
+  addresses.forEach((address, index) => {
+    const pre = preAccounts[index];
+    const post = postAccounts[index];
+
+    const preLamports = pre?.lamports || 0;
+    const postLamports = post ? post.lamports : preLamports;
+    if (preLamports !== postLamports) {
+      solChanges.push({ address, preLamports, postLamports });
+    }
+
+    const preToken = decodeAccountInfo(pre);
+    const postToken = post ? decodeAccountInfo(post) : preToken;
+    if (preToken || postToken) {
+      tokenAccounts.push({ address, pre: preToken, post: postToken });
+    }
+  });
+
+  // Fetch the decimals of every mint involved
+  const mintPrograms: { [key: string]: PublicKey } = {};
+  tokenAccounts.forEach(({ pre, post }) => {
+    const account = (post || pre) as DecodedTokenAccount;
+    mintPrograms[account.mint] = account.programId;
+  });
+
+  const mints: { [key: string]: number } = {};
+  await Promise.all(
+    Object.entries(mintPrograms).map(async ([address, programId]) => {
+      const mint = await getMint(
+        connection,
+        new PublicKey(address),
+        "confirmed",
+        programId
+      );
+      mints[address] = mint.decimals;
+    })
+  );
+
+  // Token amounts of the instructions use the decimals of their accounts
+  const tokenDecimals: TokenDecimals = { ...mints };
+  tokenAccounts.forEach(({ address, pre, post }) => {
+    const account = (post || pre) as DecodedTokenAccount;
+    tokenDecimals[address] = mints[account.mint];
+  });
+
+  const tokenChanges: TokenBalanceChange[] = tokenAccounts
+    .map(({ address, pre, post }) => {
+      const account = (post || pre) as DecodedTokenAccount;
+      return {
+        address,
+        owner: account.owner,
+        mint: account.mint,
+        decimals: mints[account.mint],
+        preAmount: pre?.amount ?? BigInt(0),
+        postAmount: post?.amount ?? BigInt(0),
+      };
+    })
+    .filter((change) => change.preAmount !== change.postAmount);
+
+  // Rent funding the associated token accounts created by the transaction
+  let rent = 0;
+  message.compiledInstructions.forEach((instruction) => {
+    const programId = message.staticAccountKeys[instruction.programIdIndex];
+    if (!programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+      return;
+    }
+
+    // The associated token account is the second account of the instruction
+    const index = addresses.indexOf(
+      message.staticAccountKeys[instruction.accountKeyIndexes[1]].toBase58()
+    );
+    const created = index >= 0 && !preAccounts[index] && postAccounts[index];
+    if (created) {
+      rent += created.lamports;
+    }
+  });
+
+  return {
+    logs: simulation.value.logs || [],
+    unitsConsumed: simulation.value.unitsConsumed ?? null,
+    error: simulation.value.err
+      ? decodeTransactionError(simulation.value.err, transaction)
+      : null,
+    fee: fee.value,
+    solChanges,
+    tokenChanges,
+    rent,
+    instructions: decodeTransactionInstructions(transaction, tokenDecimals),
+  };
+}
@@ -0,0 +1,317 @@
+/*
+ * Helper functions for Sign-In With Solana (SIWS).
+ *
+ * A service asks the wallet to sign in with a SIWS input object. The wallet
+ * fills in its address, checks the fields, renders the canonical sign-in
+ * message (the Solana flavour of EIP-4361), signs it and returns the SIWS
+ * output object, which the service verifies against its input.
+ */
+
+import { PublicKey } from "@solana/web3.js";
+import { signAsync, verifyAsync } from "../ed25119-scalar";
+import { PrivateKeyInput, withSecretKey } from "../keys";
+
+export type SignInInput = {
+  domain?: string;
+  address?: string;
+  statement?: string;
+  uri?: string;
+  version?: string;
+  chainId?: string;
+  nonce?: string;
+  issuedAt?: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+};
+
+export type SignInOutput = {
+  account: { address: string; publicKey: Uint8Array };
+  signedMessage: Uint8Array;
+  signature: Uint8Array;
+  signatureType: "ed25519";
+};
+
+export type SignInValidationOptions = {
+  // Domain of the service the user is signing in to
+  domain?: string;
+  // Chain the wallet is connected to, e.g. "solana:mainnet"
+  chainId?: string;
+  now?: Date;
+};
+
+const STRING_FIELDS: (keyof SignInInput)[] = [
+  "domain",
+  "address",
+  "statement",
+  "uri",
+  "version",
+  "chainId",
+  "nonce",
+  "issuedAt",
+  "expirationTime",
+  "notBefore",
+  "requestId",
+];
+
+// Tolerated clock difference between the service and the wallet
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const DOMAIN_PATTERN = /^[a-z0-9.-]+(:\d{1,5})?$/i;
+const NONCE_PATTERN = /^[a-z0-9]{8,}$/i;
+const TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+/*
+ * Parses a SIWS input object from JSON, checking the type of every field.
+ */
+export function parseSignInInput(json: string): SignInInput {
+  let value: any;
+  try {
+    value = JSON.parse(json);
+  } catch (e) {
+    throw new Error("Sign-in input is not valid JSON");
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Sign-in input must be a JSON object");
+  }
+
+  const input: SignInInput = {};
+  Object.keys(value).forEach((key) => {
+    const field = value[key];
+    if (key === "resources") {
+      if (
+        !Array.isArray(field) ||
+        field.some((resource) => typeof resource !== "string")
+      ) {
+        throw new Error("resources must be a list of URIs");
+      }
+      input.resources = field;
+    } else if (STRING_FIELDS.includes(key as keyof SignInInput)) {
+      if (typeof field !== "string") {
+        throw new Error(`${key} must be a string`);
+      }
+      (input as { [key: string]: string })[key] = field;
+    } else {
+      throw new Error(`Unknown sign-in field "${key}"`);
+    }
+  });
+
+  return input;
+}
+
+/*
+ * Parses an ISO 8601 timestamp of the given field.
+ */
+function parseTimestamp(name: string, value: string): number {
+  const time = Date.parse(value);
+  if (!TIMESTAMP_PATTERN.test(value) || isNaN(time)) {
+    throw new Error(`${name} is not an ISO 8601 timestamp`);
+  }
+  return time;
+}
+
+/*
+ * Checks that the value is an absolute URI.
+ */
+function checkUri(name: string, value: string) {
+  try {
+    new URL(value);
+  } catch (e) {
+    throw new Error(`${name} is not a valid URI: ${value}`);
+  }
+}
+
+/*
+ * Fills in the wallet address and checks every field of the input: the
+ * domain against the service being signed in to, the address against the
+ * wallet, the chain against the connected network, and the time fields
+ * against the current time. Returns the completed input.
+ */
+export function validateSignInInput(
+  input: SignInInput,
+  address: string,
+  options: SignInValidationOptions = {}
+): SignInInput & { domain: string; address: string } {
+  const domain = input.domain || options.domain;
+  if (!domain) {
+    throw new Error("Sign-in input has no domain");
+  }
+  if (!DOMAIN_PATTERN.test(domain)) {
+    throw new Error(`Domain "${domain}" is not a valid host`);
+  }
+  if (options.domain && domain.toLowerCase() !== options.domain.toLowerCase()) {
+    throw new Error(
+      `The sign-in request is for ${domain}, not ${options.domain}`
+    );
+  }
+
+  if (input.address && input.address !== address) {
+    throw new Error(
+      `The sign-in request is for ${input.address}, not this wallet (${address})`
+    );
+  }
+
+  if (input.statement && input.statement.includes("\n")) {
+    throw new Error("statement must be a single line");
+  }
+  if (input.uri) {
+    checkUri("uri", input.uri);
+  }
+  if (input.version && input.version !== "1") {
+    throw new Error(`Unsupported sign-in message version ${input.version}`);
+  }
+  if (input.chainId && options.chainId) {
+    // Chains may be given with or without the "solana:" prefix
+    const chain = (value: string) => value.replace(/^solana:/, "");
+    if (chain(input.chainId) !== chain(options.chainId)) {
+      throw new Error(
+        `The sign-in request is for ${input.chainId}, but the wallet is on ${options.chainId}`
+      );
+    }
+  }
+  if (input.nonce && !NONCE_PATTERN.test(input.nonce)) {
+    throw new Error("nonce must be at least 8 alphanumeric characters");
+  }
+
+  const now = (options.now || new Date()).getTime();
+  const issuedAt = input.issuedAt
+    ? parseTimestamp("issuedAt", input.issuedAt)
+    : null;
+  if (issuedAt !== null && issuedAt > now + CLOCK_SKEW_MS) {
+    throw new Error("The sign-in request is issued in the future");
+  }
+  if (input.expirationTime) {
+    const expirationTime = parseTimestamp(
+      "expirationTime",
+      input.expirationTime
+    );
+    if (expirationTime <= now) {
+      throw new Error("The sign-in request has expired");
+    }
+    if (issuedAt !== null && expirationTime <= issuedAt) {
+      throw new Error("expirationTime must be after issuedAt");
+    }
+  }
+  if (input.notBefore) {
+    const notBefore = parseTimestamp("notBefore", input.notBefore);
+    if (notBefore > now + CLOCK_SKEW_MS) {
+      throw new Error("The sign-in request is not valid yet");
+    }
+  }
+  (input.resources || []).forEach((resource) => checkUri("resource", resource));
+
+  return { ...input, domain, address };
+}
+
+/*
+ * Renders the canonical sign-in message of a completed input.
+ */
+export function createSignInMessage(
+  input: SignInInput & { domain: string; address: string }
+): string {
+  let message = `${input.domain} wants you to sign in with your Solana account:\n${input.address}`;
+  if (input.statement) {
+    message += `\n\n${input.statement}`;
+  }
+
+  const fields = (
+    [
+      ["URI", input.uri],
+      ["Version", input.version],
+      ["Chain ID", input.chainId],
+      ["Nonce", input.nonce],
+      ["Issued At", input.issuedAt],
+      ["Expiration Time", input.expirationTime],
+      ["Not Before", input.notBefore],
+      ["Request ID", input.requestId],
+    ] as [string, string | undefined][]
+  )
+    .filter(([, value]) => value)
+    .map(([label, value]) => `${label}: ${value}`);
+  if (input.resources) {
+    fields.push("Resources:");
+    input.resources.forEach((resource) => fields.push(`- ${resource}`));
+  }
+  if (fields.length > 0) {
+    message += `\n\n${fields.join("\n")}`;
+  }
+
+  return message;
+}
+
+/*
+ * Validates the input, then signs its sign-in message with the Ed25519 Key
+ * and returns the SIWS output object.
+ */
+export async function signIn(
+  scalarKey: PrivateKeyInput,
+  address: string,
+  input: SignInInput,
+  options: SignInValidationOptions = {}
+): Promise<SignInOutput> {
+  const signedMessage = new TextEncoder().encode(
+    createSignInMessage(validateSignInInput(input, address, options))
+  );
+  const signature = await withSecretKey(scalarKey, (secretKey) =>
+    signAsync(signedMessage, secretKey)
+  );
+
+  return {
+    account: { address, publicKey: new PublicKey(address).toBytes() },
+    signedMessage,
+    signature,
+    signatureType: "ed25519",
+  };
+}
+
+/*
+ * Exports the output object as JSON for a backend, with the byte fields as
+ * arrays of numbers (new Uint8Array(array) restores them).
+ */
+export function serializeSignInOutput(output: SignInOutput): string {
+  return JSON.stringify(
+    {
+      account: {
+        address: output.account.address,
+        publicKey: Array.from(output.account.publicKey),
+      },
+      signedMessage: Array.from(output.signedMessage),
+      signature: Array.from(output.signature),
+      signatureType: output.signatureType,
+    },
+    null,
+    2
+  );
+}
+
+/*
+ * Checks that the output signs the message rendered from the input, as a
+ * service receiving the output would.
+ */
+export async function verifySignIn(
+  input: SignInInput,
+  output: SignInOutput
+): Promise<boolean> {
+  const publicKey = new PublicKey(output.account.publicKey);
+  if (!input.domain || publicKey.toBase58() !== output.account.address) {
+    return false;
+  }
+
+  const expected = createSignInMessage({
+    ...input,
+    domain: input.domain,
+    address: input.address || output.account.address,
+  });
+  const signedMessage = new TextDecoder().decode(output.signedMessage);
+  if (signedMessage !== expected) {
+    return false;
+  }
+
+  return verifyAsync(
+    output.signature,
+    output.signedMessage,
+    output.account.publicKey
+  );
+}
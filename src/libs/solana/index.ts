@@ -5,68 +5,148 @@
 import {
   Connection,
   LAMPORTS_PER_SOL,
-  ParsedAccountData,
   PublicKey,
   SystemProgram,
   Transaction,
+  TransactionInstruction,
   TransactionMessage,
   VersionedTransaction,
 } from "@solana/web3.js";
 import * as bs58 from "bs58";
-import { getPublicKeyAsync, signAsync } from "../ed25119-scalar";
 import {
-  createAssociatedTokenAccountInstruction,
-  createTransferCheckedInstruction,
-  getAssociatedTokenAddress,
-  getTokenMetadata,
-  TOKEN_2022_PROGRAM_ID,
-  TOKEN_PROGRAM_ID,
-} from "@solana/spl-token";
-
-const DEVNET_URL =
-  process.env.REACT_APP_SOLANA_DEVNET_RPC_URL ||
-  "https://api.devnet.solana.com";
-const MAINNET_URL =
-  process.env.REACT_APP_SOLANA_MAINNET_RPC_URL ||
-  "https://api.mainnet-beta.solana.com";
-
-const getNetworkUrl = (useMainnet: boolean) => {
-  return useMainnet ? MAINNET_URL : DEVNET_URL;
-};
+  getExpandedSecretKeyAsync,
+  getPublicKeyAsync,
+  signAsync,
+} from "../ed25119-scalar";
+import { PrivateKeyInput, withSecretKey } from "../keys";
+import { ComputeBudgetSettings, withComputeBudget } from "../compute-budget";
+import { parseAmount, SOL_DECIMALS } from "../amounts";
+import {
+  DecodedInstruction,
+  decodeTransactionInstructions,
+} from "../instructions";
+import { Cluster } from "../cluster";
+import { getConnection, getRpcClient } from "../rpc";
+import { getTokenMetadataInfo, TokenMetadataInfo } from "../token-metadata";
+import {
+  getTokenTransferInstructions,
+  getTokenTransferPlan,
+} from "../token-transfer";
+import {
+  getCloseNonceAccountInstruction,
+  getCreateNonceAccountInstructions,
+  getDurableNonce,
+  getNonceAccount,
+} from "../nonce";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
 
 /*
- * Fetches the SOL balance of the given address.
+ * Fetches the SOL balance of the given address. RPC failures are thrown as
+ * RpcError, never reported as a zero balance.
  */
 export async function getSolBalance(
   address: string,
-  useMainnet: boolean
+  cluster: Cluster
 ): Promise<number> {
-  const networkUrl = getNetworkUrl(useMainnet);
-
-  return await fetch(networkUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      jsonrpc: "2.0",
-      id: 1,
-      method: "getBalance",
-      params: [address],
-    }),
-  })
-    .then((res) => {
-      return res.json();
-    })
-    .then((body) => {
-      const lamports = body.result.value;
-      const sol = lamports / LAMPORTS_PER_SOL;
-      return sol;
+  const { value: lamports } = await getRpcClient(cluster).request<{
+    value: number;
+  }>("getBalance", [address, { commitment: "confirmed" }]);
+  return lamports / LAMPORTS_PER_SOL;
+}
+
+export type TokenAccountDetails = {
+  address: string;
+  mint: string;
+  programId: string;
+  // Balance in base units
+  amount: bigint;
+  decimals: number;
+  uiAmount: number;
+  isFrozen: boolean;
+  // Wrapped SOL, unwrapped by closing the account
+  isNative: boolean;
+  // Rent, plus the wrapped SOL of native accounts
+  lamports: number;
+  closeAuthority: string | null;
+  // Transfer fees withheld in the account, which keep it from being closed
+  withheldAmount: bigint;
+  // Whether the account has the confidential transfer extension
+  isConfidential: boolean;
+};
+
+/*
+ * Fetches every token account of the owner, from both the SPL Token and
+ * the Token-2022 programs.
+ */
+export async function getTokenAccounts(
+  address: string,
+  cluster: Cluster
+): Promise<TokenAccountDetails[]> {
+  const connection = getConnection(cluster);
+  const owner = new PublicKey(address);
+
+  const programAccounts = await Promise.all(
+    [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map(async (programId) => ({
+      programId,
+      accounts: (
+        await connection.getParsedTokenAccountsByOwner(owner, {
+          programId,
+        })
+      ).value,
+    }))
+  );
+
+  return programAccounts.flatMap(({ programId, accounts }) =>
+    accounts.map(({ pubkey, account }) => {
+      const info = account.data.parsed.info;
+      const extensions: { extension: string; state?: any }[] =
+        info.extensions || [];
+      const transferFeeAmount = extensions.find(
+        (extension) => extension.extension === "transferFeeAmount"
+      );
+      return {
+        address: pubkey.toBase58(),
+        mint: info.mint,
+        programId: programId.toBase58(),
+        amount: BigInt(info.tokenAmount.amount),
+        decimals: info.tokenAmount.decimals,
+        uiAmount: info.tokenAmount.uiAmount,
+        isFrozen: info.state === "frozen",
+        isNative: !!info.isNative,
+        lamports: account.lamports,
+        closeAuthority: info.closeAuthority || null,
+        withheldAmount: BigInt(transferFeeAmount?.state?.withheldAmount || 0),
+        isConfidential: extensions.some(
+          (extension) => extension.extension === "confidentialTransferAccount"
+        ),
+      };
     })
-    .catch((err) => {
-      console.error(err);
-      return 0;
-    });
+  );
+}
+
+/*
+ * Returns why the owner cannot close the token account, or null when it can.
+ */
+export function getCloseAccountBlocker(
+  account: TokenAccountDetails,
+  owner: string
+): string | null {
+  if (account.amount > BigInt(0) && !account.isNative) {
+    return "It still holds tokens";
+  }
+  if (account.isFrozen) {
+    return "It is frozen by the token's freeze authority";
+  }
+  if (account.closeAuthority && account.closeAuthority !== owner) {
+    return `Only its close authority ${account.closeAuthority} can close it`;
+  }
+  if (account.withheldAmount > BigInt(0)) {
+    return "It holds withheld transfer fees, which the fee authority must harvest first";
+  }
+  if (account.isConfidential) {
+    return "It has a confidential balance, which this wallet cannot empty";
+  }
+  return null;
 }
 
 /*
@@ -74,321 +154,495 @@ export async function getSolBalance(
  */
 export async function getSPLTokenBalances(
   address: string,
-  useMainnet: boolean
+  cluster: Cluster
 ): Promise<{ [key: string]: number }> {
   const balances: { [key: string]: number } = {};
-  const network = getNetworkUrl(useMainnet);
-  const connection = new Connection(network);
-  // Fetch SPL tokens
-  const splTokenAccounts = await connection.getParsedTokenAccountsByOwner(
-    new PublicKey(address),
-    {
-      programId: TOKEN_PROGRAM_ID,
-    }
-  );
+  const accounts = await getTokenAccounts(address, cluster);
+  accounts.forEach((account) => {
+    balances[account.mint] = account.uiAmount;
+  });
+  return balances;
+}
 
-  // Fetch SPL-2022 tokens
-  const spl2022TokenAccounts = await connection.getParsedTokenAccountsByOwner(
-    new PublicKey(address),
-    {
-      programId: TOKEN_2022_PROGRAM_ID,
-    }
-  );
+export type AccountOverview = {
+  address: string;
+  solBalance: number;
+  tokenBalances: { [key: string]: number };
+};
 
-  // Process SPL tokens
-  splTokenAccounts.value.forEach((tokenAccount) => {
-    const balance = tokenAccount.account.data.parsed.info.tokenAmount.uiAmount;
-    balances[tokenAccount.account.data.parsed.info.mint.toString() || ""] =
-      balance;
-  });
+/*
+ * Fetches the SOL and SPL token balances of several addresses, along with
+ * the totals across all of them.
+ */
+export async function getAccountsOverview(
+  addresses: string[],
+  cluster: Cluster
+): Promise<{
+  accounts: AccountOverview[];
+  totalSol: number;
+  totalTokenBalances: { [key: string]: number };
+}> {
+  const accounts = await Promise.all(
+    addresses.map(async (address) => {
+      const [solBalance, tokenBalances] = await Promise.all([
+        getSolBalance(address, cluster),
+        getSPLTokenBalances(address, cluster),
+      ]);
+      return { address, solBalance, tokenBalances };
+    })
+  );
 
-  // Process SPL-2022 tokens
-  spl2022TokenAccounts.value.forEach((tokenAccount) => {
-    const balance = tokenAccount.account.data.parsed.info.tokenAmount.uiAmount;
-    balances[tokenAccount.account.data.parsed.info.mint.toString() || ""] =
-      balance;
+  let totalSol = 0;
+  const totalTokenBalances: { [key: string]: number } = {};
+  accounts.forEach((account) => {
+    totalSol += account.solBalance;
+    Object.entries(account.tokenBalances).forEach(([mint, balance]) => {
+      totalTokenBalances[mint] = (totalTokenBalances[mint] || 0) + balance;
+    });
   });
 
-  return balances;
+  return { accounts, totalSol, totalTokenBalances };
 }
 
 /*
  * Derives a Solana public key from the given private key.
  */
-export async function getPublicKey(privateKey: string): Promise<string> {
-  // Convert base58 encoded private key to bytes
-  const privateKeyBytes = bs58.default.decode(privateKey);
-  if (privateKeyBytes.length !== 32) {
-    throw new Error("Invalid private key length");
-  }
-
-  // Convert bytes to hex string
-  const privateKeyHex = Buffer.from(privateKeyBytes).toString("hex");
-
-  // Get and print Solana public key
-  const result = await getPublicKeyAsync(privateKeyHex);
+export async function getPublicKey(
+  privateKey: PrivateKeyInput
+): Promise<string> {
+  // Decode and validate the private key in any supported format,
+  // then get the Solana public key
+  const result = await withSecretKey(privateKey, getPublicKeyAsync);
   const solanaAddress = bs58.default.encode(result);
 
   return solanaAddress;
 }
 
 /*
- * Execute transfer of SOL to another owner with the Ed25519 Key.
+ * Exports the given private key as a base58 encoded 64-byte expanded secret
+ * key (scalar || prefix), the format used by libsodium and ed25519-dalek.
  */
-export async function signAndSendSolTransaction(
-  scalarKey: string,
+export async function getExpandedSecretKey(
+  privateKey: PrivateKeyInput
+): Promise<string> {
+  const expandedKey = await withSecretKey(
+    privateKey,
+    getExpandedSecretKeyAsync
+  );
+  try {
+    return bs58.default.encode(expandedKey);
+  } finally {
+    expandedKey.fill(0);
+  }
+}
+
+/*
+ * Creates a legacy transaction for the instructions, using either a recent
+ * blockhash or the fee payer's durable nonce.
+ */
+async function createLegacyTransaction(
+  connection: Connection,
+  feePayer: PublicKey,
+  instructions: TransactionInstruction[],
+  durableNonce = false
+): Promise<Transaction> {
+  if (durableNonce) {
+    // The AdvanceNonceAccount instruction is prepended when compiled
+    const { minContextSlot, ...nonceInfo } = await getDurableNonce(
+      connection,
+      feePayer
+    );
+    return new Transaction({ feePayer, minContextSlot, nonceInfo }).add(
+      ...instructions
+    );
+  }
+
+  const { blockhash, lastValidBlockHeight } =
+    await connection.getLatestBlockhash("confirmed");
+  return new Transaction({
+    blockhash,
+    lastValidBlockHeight,
+    feePayer,
+  }).add(...instructions);
+}
+
+/*
+ * Build an unsigned transfer of SOL to another owner. The amount is a
+ * decimal string of SOL, converted exactly to lamports.
+ */
+export async function buildSolTransferTransaction(
   fromAddress: string,
   toAddress: string,
-  amount: number,
-  useMainnet: boolean
-): Promise<string> {
-  const network = getNetworkUrl(useMainnet);
+  amount: string,
+  cluster: Cluster,
+  computeBudget?: ComputeBudgetSettings,
+  durableNonce?: boolean
+): Promise<Transaction> {
+  const connection = getConnection(cluster);
 
   // Create public keys from address strings
   const fromPublicKey = new PublicKey(fromAddress);
   const toPublicKey = new PublicKey(toAddress);
 
-  // prep the private key hex
-  const privateKeyHex = Buffer.from(bs58.default.decode(scalarKey)).toString(
-    "hex"
+  const lamports = parseAmount(amount, SOL_DECIMALS);
+  if (lamports === BigInt(0)) {
+    throw new Error("Amount must be greater than zero");
+  }
+
+  const instructions = await withComputeBudget(
+    connection,
+    fromPublicKey,
+    [
+      SystemProgram.transfer({
+        fromPubkey: fromPublicKey,
+        toPubkey: toPublicKey,
+        lamports,
+      }),
+    ],
+    computeBudget
   );
 
-  const connection = new Connection(network);
-  const { blockhash } = await connection.getLatestBlockhash("finalized");
-  let tx = new Transaction({
-    recentBlockhash: blockhash,
-    feePayer: fromPublicKey,
-  }).add(
-    SystemProgram.transfer({
-      fromPubkey: fromPublicKey,
-      toPubkey: toPublicKey,
-      lamports: LAMPORTS_PER_SOL * amount,
-    })
+  return createLegacyTransaction(
+    connection,
+    fromPublicKey,
+    instructions,
+    durableNonce
+  );
+}
+
+/*
+ * Returns the serialized message of a legacy or versioned transaction, the
+ * bytes every signer signs.
+ */
+export function getTransactionMessage(
+  transaction: Transaction | VersionedTransaction
+): Uint8Array {
+  return transaction instanceof VersionedTransaction
+    ? transaction.message.serialize()
+    : transaction.serializeMessage();
+}
+
+/*
+ * Returns the accounts that must sign the transaction, fee payer first.
+ */
+export function getRequiredSigners(
+  transaction: Transaction | VersionedTransaction
+): PublicKey[] {
+  const message =
+    transaction instanceof VersionedTransaction
+      ? transaction.message
+      : transaction.compileMessage();
+  return message.staticAccountKeys.slice(
+    0,
+    message.header.numRequiredSignatures
   );
+}
 
-  // Serialize the transaction to a Buffer
-  const serializedMessage = tx.serializeMessage();
+/*
+ * Checks whether the address is one of the transaction's required signers.
+ */
+export function isRequiredSigner(
+  transaction: Transaction | VersionedTransaction,
+  address: string
+): boolean {
+  const publicKey = new PublicKey(address);
+  return getRequiredSigners(transaction).some((signer) =>
+    signer.equals(publicKey)
+  );
+}
 
-  // Convert the serialized transaction to a hex string
-  const serializedHex = Buffer.from(serializedMessage).toString("hex");
+// A signature made by the wallet, with the instructions it signed for review
+export type SignedTransaction = {
+  signature: Uint8Array;
+  instructions: DecodedInstruction[];
+};
+
+// A transaction signed and sent by the wallet, by its base58 signature
+export type SentTransaction = {
+  signature: string;
+  instructions: DecodedInstruction[];
+};
+
+/*
+ * Sign a legacy or versioned transaction with the Ed25519 Key, adding the
+ * signature to the transaction. Returns the signature and the decoded
+ * instructions that were signed.
+ */
+export async function signTransaction(
+  scalarKey: PrivateKeyInput,
+  signerAddress: string,
+  transaction: Transaction | VersionedTransaction
+): Promise<SignedTransaction> {
+  const signerPublicKey = new PublicKey(signerAddress);
+  if (!isRequiredSigner(transaction, signerAddress)) {
+    throw new Error(
+      `Transaction does not require a signature from ${signerAddress}`
+    );
+  }
+
+  // Serialize the transaction message to a Buffer
+  const serializedMessage = getTransactionMessage(transaction);
 
   // Sign the serialized transaction
-  const transactionSignature = await signAsync(serializedHex, privateKeyHex);
+  const transactionSignature = await withSecretKey(scalarKey, (secretKey) =>
+    signAsync(serializedMessage, secretKey)
+  );
 
   // Add the signature to the transaction
   const signatureBuffer = Buffer.from(transactionSignature);
-  tx.addSignature(fromPublicKey, signatureBuffer);
-  console.log("Signed transaction: ", tx);
+  transaction.addSignature(signerPublicKey, signatureBuffer);
+
+  return {
+    signature: transactionSignature,
+    instructions: decodeTransactionInstructions(transaction),
+  };
+}
+
+/*
+ * Send a fully signed transaction.
+ */
+export async function sendSignedTransaction(
+  transaction: Transaction | VersionedTransaction,
+  cluster: Cluster
+): Promise<string> {
+  const connection = getConnection(cluster);
 
-  // Verify the transaction
-  if (!tx.verifySignatures()) {
+  // Verify the legacy transaction, versioned transactions are checked by the network
+  if (transaction instanceof Transaction && !transaction.verifySignatures()) {
     throw new Error("Signature verification failed");
   }
 
-  const rawTransaction = tx.serialize();
+  const rawTransaction = transaction.serialize();
   const hash = await connection.sendRawTransaction(rawTransaction);
 
   return hash;
 }
 
 /*
- * Fetch SPL token info
+ * Sign a legacy or versioned transaction with the Ed25519 Key and send it.
  */
-export async function getSPLTokenInfo(
-  tokenAddress: string,
-  useMainnet: boolean
-): Promise<any> {
-  const network = getNetworkUrl(useMainnet);
-  const connection = new Connection(network);
-
-  const tokenPublicKey = new PublicKey(tokenAddress);
-  const accountInfo = await connection.getParsedAccountInfo(tokenPublicKey);
-
-  const is2022Program =
-    (accountInfo?.value?.data as ParsedAccountData).program ===
-    "spl-token-2022";
+export async function signAndSendTransaction(
+  scalarKey: PrivateKeyInput,
+  signerAddress: string,
+  transaction: Transaction | VersionedTransaction,
+  cluster: Cluster
+): Promise<SentTransaction> {
+  const { instructions } = await signTransaction(
+    scalarKey,
+    signerAddress,
+    transaction
+  );
+  const signature = await sendSignedTransaction(transaction, cluster);
+  return { signature, instructions };
+}
 
-  let name = "";
-  let symbol = "";
+/*
+ * Execute transfer of SOL to another owner with the Ed25519 Key.
+ */
+export async function signAndSendSolTransaction(
+  scalarKey: PrivateKeyInput,
+  fromAddress: string,
+  toAddress: string,
+  amount: string,
+  cluster: Cluster,
+  computeBudget?: ComputeBudgetSettings,
+  durableNonce?: boolean
+): Promise<SentTransaction> {
+  const transaction = await buildSolTransferTransaction(
+    fromAddress,
+    toAddress,
+    amount,
+    cluster,
+    computeBudget,
+    durableNonce
+  );
 
-  if (is2022Program) {
-    const metadata = await getTokenMetadata(
-      connection,
-      tokenPublicKey,
-      "finalized",
-      TOKEN_2022_PROGRAM_ID
-    );
-    name = metadata?.name || "";
-    symbol = metadata?.symbol || "";
-  } else {
-    console.log("Could not fetch token metadata for non-2022 program");
-  }
+  return signAndSendTransaction(scalarKey, fromAddress, transaction, cluster);
+}
 
-  return { name, symbol };
+/*
+ * Fetch the name, symbol and URI of an SPL or SPL-22 token, and the image
+ * of its off-chain metadata when includeImage is set.
+ */
+export async function getSPLTokenInfo(
+  tokenAddress: string,
+  cluster: Cluster,
+  includeImage = false
+): Promise<TokenMetadataInfo> {
+  return getTokenMetadataInfo(cluster, tokenAddress, includeImage);
 }
 
 /*
- * Execute transfer of an SPL-22 token to another owner.
+ * Build an unsigned transfer of an SPL-22 token to another owner, creating
+ * the recipient's associated token account when needed. The amount is a
+ * decimal string of the token, converted exactly to base units. Token-2022
+ * extensions are honoured: transfer fees, transfer hooks and required memos
+ * are added to the transfer, and transfers the token program would refuse
+ * throw a TokenTransferError explaining why.
  */
-export async function signAndSendSPLTransferTransaction(
-  scalarKey: string,
+export async function buildSPLTransferTransaction(
   sender: string,
   recipient: string,
-  amount: number,
+  amount: string,
   tokenAddress: string,
-  useMainnet: boolean
-): Promise<string | null> {
-  const network = getNetworkUrl(useMainnet);
-
-  // prep the private key hex
-  const privateKeyHex = Buffer.from(bs58.default.decode(scalarKey)).toString(
-    "hex"
-  );
-
-  // Create connection to the network
-  const connection = new Connection(network);
-
-  const tokenPublicKey = new PublicKey(tokenAddress);
-
-  // Sender & receiver PublicKeys from address strings
+  cluster: Cluster,
+  computeBudget?: ComputeBudgetSettings,
+  durableNonce?: boolean,
+  memo?: string
+): Promise<VersionedTransaction> {
+  const connection = getConnection(cluster);
   const senderPublicKey = new PublicKey(sender);
-  const recipientPublicKey = new PublicKey(recipient);
-
-  // Instructions array to hold the transaction instructions
-  const instructions = [];
-
-  // Get token account & mint info
-  const tokenInfo = await connection.getParsedAccountInfo(tokenPublicKey);
 
-  if (!tokenInfo) {
-    throw Error(
-      `No token account found for SPL token with address (${tokenPublicKey.toString()})
-       on Solana ${
-         useMainnet ? "mainnet" : "testnet"
-       }. Check the SPL address is correct and that the SPL token exists before trying to send.`
-    );
-  }
-
-  const programData = tokenInfo.value?.data as ParsedAccountData;
-
-  if (!programData) {
-    throw Error(
-      `No program data found for SPL token with address (${tokenPublicKey.toString()})
-       on Solana ${
-         useMainnet ? "mainnet" : "testnet"
-       }. Check the SPL address is correct and that the SPL token exists before trying to send.`
-    );
-  }
-
-  // set the token program Id based on the token program
-  const tokenProgramId =
-    programData.program === "spl-token-2022"
-      ? TOKEN_2022_PROGRAM_ID
-      : TOKEN_PROGRAM_ID;
-  const tokenDecimals = programData.parsed.info.decimals;
-
-  // Each SPL token has an associated token account for each owner
-  // Check if the sender address has an associated token account for the SPL token
-  const senderTokenAddress = await getAssociatedTokenAddress(
-    tokenPublicKey,
+  // Check the mint and both token accounts before building anything
+  const plan = await getTokenTransferPlan(
+    cluster,
+    tokenAddress,
+    sender,
+    recipient,
+    amount
+  );
+  const instructions = await getTokenTransferInstructions(
+    cluster,
+    plan,
     senderPublicKey,
-    false,
-    tokenProgramId
+    memo
   );
 
-  const senderAccountInfo = await connection.getAccountInfo(senderTokenAddress);
-  if (!senderAccountInfo) {
-    // If there is no senderAccountInfo then the sender does not have any
-    // the SPL token to send.
-    throw Error(
-      `Sender ${sender} does not have a token account for SPL token with address (${tokenPublicKey.toString()})
-       on Solana ${
-         useMainnet ? "mainnet" : "testnet"
-       }. Check the SPL address is correct, that the current mainnet
-       toggle is correct, and that the sender has the specified SPL token before trying to send.`
-    );
-  }
-
-  // Check if the recipient address has an associated token account for the SPL token
-  const receiverTokenAddress = await getAssociatedTokenAddress(
-    tokenPublicKey,
-    recipientPublicKey,
-    false,
-    tokenProgramId
+  // Prepend the compute unit limit and priority fee, if any
+  const budgetedInstructions = await withComputeBudget(
+    connection,
+    senderPublicKey,
+    instructions,
+    computeBudget
   );
 
-  const receiverAccountInfo = await connection.getAccountInfo(
-    receiverTokenAddress
-  );
-  if (!receiverAccountInfo) {
-    // If there is no receiverAccountInfo then we need to create and pay for
-    // a token account for the recipient before we can transfer the SPL token to them.
-    console.log(
-      `Creating new token account at ${receiverTokenAddress} for ${recipient} on ${tokenPublicKey.toString()} paid for by ${sender}`
-    );
-    const createTokenAccountIx = createAssociatedTokenAccountInstruction(
-      senderPublicKey, // Payer
-      receiverTokenAddress, // Associated token account address
-      recipientPublicKey, // Owner of the associated token account
-      tokenPublicKey,
-      tokenProgramId
+  let recentBlockhash: string;
+  if (durableNonce) {
+    // Use the nonce as blockhash, advancing it in the first instruction
+    const { nonce, nonceInstruction } = await getDurableNonce(
+      connection,
+      senderPublicKey
     );
-
-    // Add the create token account instruction to the instructions array
-    // so we can execute all instructions in one transaction.
-    instructions.push(createTokenAccountIx);
+    recentBlockhash = nonce;
+    budgetedInstructions.unshift(nonceInstruction);
+  } else {
+    // Fetch recent blockhash
+    const blockhash = await connection.getLatestBlockhash("confirmed");
+    recentBlockhash = blockhash.blockhash;
   }
 
-  // Fetch recent blockhash
-  const blockhash = await connection.getLatestBlockhash("finalized");
-
-  // Create the transfer instruction to send the SPL token from the sender
-  // to recipient
-  const transferInstruction = createTransferCheckedInstruction(
-    senderTokenAddress, // sender token account
-    tokenPublicKey, // mint PublicKey
-    receiverTokenAddress, // receiver token account
-    senderPublicKey, // owner PublicKey
-    amount * Math.pow(10, tokenDecimals), // amount in minimum units
-    tokenDecimals, // decimals
-    [], // signers - empty because we're going to be signing when we submit
-    tokenProgramId // programId
-  );
-
-  // Add the create token account instruction to the instructions array
-  // so we can execute all instructions in one transaction.
-  instructions.push(transferInstruction);
-
-  // Create the transaction message with the payer and latest blockhash
+  // Create the transaction message with the payer and blockhash
   const message = new TransactionMessage({
     payerKey: senderPublicKey,
-    recentBlockhash: blockhash.blockhash,
-    instructions,
+    recentBlockhash,
+    instructions: budgetedInstructions,
   });
 
   // Create the versioned transaction with the message.
   // CompileToV0Message will convert the message to a versioned message
   // https://solana.com/docs/advanced/versions#notes
   const transaction = new VersionedTransaction(message.compileToV0Message());
-  console.log("Unsigned versioned transaction: ", transaction);
 
-  // Serialized the transaction and properly encode it to be
-  // signed by Portal
-  const serializedTransaction = transaction.message.serialize();
+  return transaction;
+}
 
-  // Convert the serialized transaction to a hex string
-  const serializedHex = Buffer.from(serializedTransaction).toString("hex");
+/*
+ * Execute transfer of an SPL-22 token to another owner.
+ */
+export async function signAndSendSPLTransferTransaction(
+  scalarKey: PrivateKeyInput,
+  sender: string,
+  recipient: string,
+  amount: string,
+  tokenAddress: string,
+  cluster: Cluster,
+  computeBudget?: ComputeBudgetSettings,
+  durableNonce?: boolean,
+  memo?: string
+): Promise<SentTransaction> {
+  const transaction = await buildSPLTransferTransaction(
+    sender,
+    recipient,
+    amount,
+    tokenAddress,
+    cluster,
+    computeBudget,
+    durableNonce,
+    memo
+  );
 
-  // Sign the serialized transaction
-  const transactionSignature = await signAsync(serializedHex, privateKeyHex);
+  return signAndSendTransaction(scalarKey, sender, transaction, cluster);
+}
 
-  // Add the signature to the transaction
-  const signatureBuffer = Buffer.from(transactionSignature);
-  transaction.addSignature(senderPublicKey, signatureBuffer);
+export type NonceAccountStatus = {
+  address: string;
+  authority: string;
+  // Current nonce, used in place of a recent blockhash
+  nonce: string;
+  lamports: number;
+  lamportsPerSignature: number;
+};
 
-  const rawTransaction = transaction.serialize();
+/*
+ * Fetches the durable nonce account of the given address, or null when it
+ * has not been created.
+ */
+export async function getNonceAccountStatus(
+  address: string,
+  cluster: Cluster
+): Promise<NonceAccountStatus | null> {
+  const connection = getConnection(cluster);
 
-  // Send the transaction to the network
-  const hash = await connection.sendRawTransaction(rawTransaction);
-  return hash;
+  const nonceAccount = await getNonceAccount(
+    connection,
+    new PublicKey(address)
+  );
+  if (!nonceAccount) {
+    return null;
+  }
+
+  return {
+    address: nonceAccount.address.toBase58(),
+    authority: nonceAccount.account.authorizedPubkey.toBase58(),
+    nonce: nonceAccount.account.nonce,
+    lamports: nonceAccount.lamports,
+    lamportsPerSignature:
+      nonceAccount.account.feeCalculator.lamportsPerSignature,
+  };
+}
+
+/*
+ * Build an unsigned transaction creating the durable nonce account of the
+ * given address, which pays its rent and becomes its authority.
+ */
+export async function buildCreateNonceAccountTransaction(
+  address: string,
+  cluster: Cluster
+): Promise<Transaction> {
+  const connection = getConnection(cluster);
+  const authority = new PublicKey(address);
+
+  const instructions = await getCreateNonceAccountInstructions(
+    connection,
+    authority
+  );
+  return createLegacyTransaction(connection, authority, instructions);
+}
+
+/*
+ * Build an unsigned transaction closing the durable nonce account of the
+ * given address, returning its rent to the address.
+ */
+export async function buildCloseNonceAccountTransaction(
+  address: string,
+  cluster: Cluster
+): Promise<Transaction> {
+  const connection = getConnection(cluster);
+  const authority = new PublicKey(address);
+
+  const instruction = await getCloseNonceAccountInstruction(
+    connection,
+    authority
+  );
+  return createLegacyTransaction(connection, authority, [instruction]);
 }
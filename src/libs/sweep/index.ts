@@ -0,0 +1,252 @@
+/*
+ * Helper functions for sweeping every asset of an address to another one.
+ *
+ * Scalar keys cannot be imported into other wallets, so moving funds out
+ * means moving everything: each token balance is transferred to the
+ * destination's associated token account, created when missing, and the
+ * emptied token account is closed in the same transaction to reclaim its
+ * rent. The transfers are packed into as few transactions as fit. Once they
+ * are finalized, the remaining SOL, reclaimed rent included, is sent minus
+ * the network fee.
+ */
+
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { createCloseAccountInstruction } from "@solana/spl-token";
+import { Cluster } from "../cluster";
+import { getConnection } from "../rpc";
+import { PrivateKeyInput } from "../keys";
+import {
+  BatchProgress,
+  compileTransaction,
+  executeBatches,
+  packInstructions,
+} from "../batch";
+import {
+  getTokenTransferInstructions,
+  getTokenTransferPlan,
+  TokenTransferError,
+} from "../token-transfer";
+import { getTokenAccounts, TokenAccountDetails } from "../solana";
+import { getCleanupBlocker } from "../token-accounts";
+
+export type SweepTokenAction = "transfer" | "close" | "skip";
+
+export type SweepToken = {
+  account: TokenAccountDetails;
+  // Transfer the balance, only close the (empty or wrapped SOL) account,
+  // or leave it as it is
+  action: SweepTokenAction;
+  // Whether the account is closed, after its transfer if any
+  close: boolean;
+  // Why the tokens are left, or why the account stays open
+  note: string | null;
+};
+
+export type SweepStep =
+  | {
+      kind: "tokens";
+      tokens: SweepToken[];
+      instructions: TransactionInstruction[];
+    }
+  // The remaining SOL, measured once the token steps are done
+  | { kind: "sol" };
+
+export type SweepPlan = {
+  owner: string;
+  destination: string;
+  steps: SweepStep[];
+  // Token accounts left untouched, with the reason
+  skipped: SweepToken[];
+};
+
+/*
+ * Plans the sweep of the owner's tokens and SOL to the destination. Token
+ * accounts that cannot be emptied or closed are listed in skipped with the
+ * reason; a transfer that is possible but leaves the account open notes why.
+ */
+export async function planSweep(
+  cluster: Cluster,
+  owner: string,
+  destination: string
+): Promise<SweepPlan> {
+  let destinationPublicKey: PublicKey;
+  try {
+    destinationPublicKey = new PublicKey(destination);
+  } catch (e) {
+    throw new Error(`Invalid destination address: ${destination}`);
+  }
+  if (destinationPublicKey.toBase58() === owner) {
+    throw new Error("The destination must be another address");
+  }
+  const ownerPublicKey = new PublicKey(owner);
+
+  const accounts = await getTokenAccounts(owner, cluster);
+  const groups: {
+    token: SweepToken;
+    instructions: TransactionInstruction[];
+  }[] = [];
+  const skipped: SweepToken[] = [];
+  // Destination accounts created by an earlier transfer of the sweep
+  const createdAccounts = new Set<string>();
+
+  for (const account of accounts) {
+    // Whether the account can be closed once emptied
+    const closeBlocker = getCleanupBlocker(account, owner);
+    const closeInstruction = createCloseAccountInstruction(
+      new PublicKey(account.address),
+      ownerPublicKey,
+      ownerPublicKey,
+      [],
+      new PublicKey(account.programId)
+    );
+
+    // Closing wrapped SOL unwraps it, the SOL is then swept with the rest
+    if (account.amount === BigInt(0) || account.isNative) {
+      const token = {
+        account,
+        action: closeBlocker ? "skip" : "close",
+        close: !closeBlocker,
+        note: closeBlocker,
+      } as const;
+      if (closeBlocker) {
+        skipped.push(token);
+      } else {
+        groups.push({ token, instructions: [closeInstruction] });
+      }
+      continue;
+    }
+
+    let instructions: TransactionInstruction[];
+    try {
+      const plan = await getTokenTransferPlan(
+        cluster,
+        account.mint,
+        owner,
+        destination,
+        account.amount,
+        account.address
+      );
+      // One creation per destination account, by the first transfer
+      const destinationAddress = plan.destination.toBase58();
+      if (createdAccounts.has(destinationAddress)) {
+        plan.createDestination = false;
+      }
+      createdAccounts.add(destinationAddress);
+      instructions = await getTokenTransferInstructions(
+        cluster,
+        plan,
+        ownerPublicKey
+      );
+    } catch (e) {
+      if (!(e instanceof TokenTransferError)) {
+        throw e;
+      }
+      skipped.push({ account, action: "skip", close: false, note: e.message });
+      continue;
+    }
+
+    groups.push({
+      token: {
+        account,
+        action: "transfer",
+        close: !closeBlocker,
+        note: closeBlocker && `The account stays open: ${closeBlocker}`,
+      },
+      instructions: closeBlocker
+        ? instructions
+        : [...instructions, closeInstruction],
+    });
+  }
+
+  // Pack the transfers into as few transactions as fit, in order
+  const steps: SweepStep[] = packInstructions(
+    ownerPublicKey,
+    groups.map(({ token, instructions }) => ({ item: token, instructions }))
+  ).map(({ items, instructions }) => ({
+    kind: "tokens",
+    tokens: items,
+    instructions,
+  }));
+  steps.push({ kind: "sol" });
+
+  return { owner, destination, steps, skipped };
+}
+
+/*
+ * Builds the transfer of all of the owner's SOL, minus the fee of the
+ * transfer itself. Returns null when the balance does not cover the fee.
+ */
+async function buildSolSweepTransaction(
+  connection: Connection,
+  owner: PublicKey,
+  destination: PublicKey,
+  recentBlockhash: string
+): Promise<VersionedTransaction | null> {
+  const balance = await connection.getBalance(owner, "confirmed");
+  const transfer = (lamports: number) =>
+    compileTransaction(
+      owner,
+      [
+        SystemProgram.transfer({
+          fromPubkey: owner,
+          toPubkey: destination,
+          lamports,
+        }),
+      ],
+      recentBlockhash
+    );
+
+  const { value: fee } = await connection.getFeeForMessage(
+    transfer(balance).message,
+    "confirmed"
+  );
+  if (fee === null) {
+    throw new Error("Could not get the network fee of the SOL transfer");
+  }
+  return balance > fee ? transfer(balance - fee) : null;
+}
+
+/*
+ * Signs and sends the steps of the sweep one after the other, waiting for
+ * each to be finalized before the next, and reporting the progress of every
+ * step. The SOL step is skipped when no SOL is left after its fee. Stops at
+ * the first step that fails or expires, or once the signal is aborted;
+ * returns whether all steps succeeded.
+ */
+export async function executeSweep(
+  scalarKey: PrivateKeyInput,
+  plan: SweepPlan,
+  cluster: Cluster,
+  onProgress: (step: number, progress: BatchProgress) => void,
+  signal?: AbortSignal
+): Promise<boolean> {
+  const connection = getConnection(cluster);
+  const owner = new PublicKey(plan.owner);
+  const destination = new PublicKey(plan.destination);
+
+  return executeBatches(
+    scalarKey,
+    plan.owner,
+    plan.steps.length,
+    async (i, recentBlockhash) => {
+      const step = plan.steps[i];
+      return step.kind === "tokens"
+        ? compileTransaction(owner, step.instructions, recentBlockhash)
+        : buildSolSweepTransaction(
+            connection,
+            owner,
+            destination,
+            recentBlockhash
+          );
+    },
+    cluster,
+    onProgress,
+    signal
+  );
+}
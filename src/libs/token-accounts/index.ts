@@ -0,0 +1,135 @@
+/*
+ * Helper functions for cleaning up token accounts.
+ *
+ * Every token account locks about 0.002 SOL of rent, returned to the owner
+ * when the account is closed. Empty accounts are closed directly; accounts
+ * holding unwanted dust have their balance burned first, in the same
+ * transaction. Wrapped SOL accounts are closed without burning, which
+ * unwraps their SOL.
+ */
+
+import { PublicKey, TransactionInstruction } from "@solana/web3.js";
+import {
+  createBurnCheckedInstruction,
+  createCloseAccountInstruction,
+} from "@solana/spl-token";
+import { Cluster } from "../cluster";
+import { PrivateKeyInput } from "../keys";
+import {
+  BatchProgress,
+  compileTransaction,
+  executeBatches,
+  InstructionBatch,
+  packInstructions,
+} from "../batch";
+import { getCloseAccountBlocker, TokenAccountDetails } from "../solana";
+
+/*
+ * Whether the account holds tokens that closing it would burn.
+ */
+export const holdsDust = (account: TokenAccountDetails) =>
+  !account.isNative && account.amount > BigInt(0);
+
+/*
+ * Returns why the owner cannot close the account, even after burning its
+ * balance, or null when it can.
+ */
+export function getCleanupBlocker(
+  account: TokenAccountDetails,
+  owner: string
+): string | null {
+  return getCloseAccountBlocker(
+    { ...account, amount: holdsDust(account) ? BigInt(0) : account.amount },
+    owner
+  );
+}
+
+/*
+ * Returns the instructions closing the account, burning its balance first
+ * when it holds tokens. The rent goes back to the owner.
+ */
+export function getCleanupInstructions(
+  account: TokenAccountDetails,
+  owner: string
+): TransactionInstruction[] {
+  const blocker = getCleanupBlocker(account, owner);
+  if (blocker) {
+    throw new Error(
+      `Cannot close token account ${account.address}: ${blocker}`
+    );
+  }
+
+  const address = new PublicKey(account.address);
+  const ownerPublicKey = new PublicKey(owner);
+  const programId = new PublicKey(account.programId);
+  const instructions: TransactionInstruction[] = [];
+  if (holdsDust(account)) {
+    instructions.push(
+      createBurnCheckedInstruction(
+        address,
+        new PublicKey(account.mint),
+        ownerPublicKey,
+        account.amount,
+        account.decimals,
+        [],
+        programId
+      )
+    );
+  }
+  instructions.push(
+    createCloseAccountInstruction(
+      address,
+      ownerPublicKey,
+      ownerPublicKey,
+      [],
+      programId
+    )
+  );
+  return instructions;
+}
+
+/*
+ * Packs the cleanup of the accounts into as few transactions as fit.
+ */
+export function planTokenAccountCleanup(
+  accounts: TokenAccountDetails[],
+  owner: string
+): InstructionBatch<TokenAccountDetails>[] {
+  return packInstructions(
+    new PublicKey(owner),
+    accounts.map((account) => ({
+      item: account,
+      instructions: getCleanupInstructions(account, owner),
+    }))
+  );
+}
+
+/*
+ * Signs and sends the cleanup transactions one after the other, reporting
+ * the progress of each, until one fails or the signal is aborted. Returns
+ * whether all of them succeeded.
+ */
+export async function executeTokenAccountCleanup(
+  scalarKey: PrivateKeyInput,
+  owner: string,
+  batches: InstructionBatch<TokenAccountDetails>[],
+  cluster: Cluster,
+  onProgress: (batch: number, progress: BatchProgress) => void,
+  signal?: AbortSignal
+): Promise<boolean> {
+  const ownerPublicKey = new PublicKey(owner);
+  return executeBatches(
+    scalarKey,
+    owner,
+    batches.length,
+    async (i, recentBlockhash) =>
+      compileTransaction(
+        ownerPublicKey,
+        batches[i].instructions,
+        recentBlockhash
+      ),
+    cluster,
+    onProgress,
+    signal
+  );
+}
@@ -0,0 +1,332 @@
+/*
+ * Helper functions for resolving the name, symbol and image of a token.
+ *
+ * Classic SPL mints keep their metadata in the Metaplex Token Metadata
+ * account derived from the mint. Token-2022 mints point at their metadata
+ * with the metadata pointer extension: either the mint itself, holding the
+ * token metadata extension, or an external account, which is a Metaplex
+ * account or an account of a program implementing the token metadata
+ * interface. The URI of the metadata leads to an off-chain JSON document,
+ * whose image is fetched on request.
+ *
+ * Results are cached per cluster and mint.
+ */
+
+import { AccountInfo, PublicKey } from "@solana/web3.js";
+import {
+  ExtensionType,
+  getExtensionData,
+  getMetadataPointerState,
+  TOKEN_2022_PROGRAM_ID,
+  unpackMint,
+} from "@solana/spl-token";
+import { Cluster } from "../cluster";
+import { getConnection } from "../rpc";
+
+export type TokenMetadataSource = "token-2022" | "metaplex" | "none";
+
+export type TokenMetadataInfo = {
+  name: string;
+  symbol: string;
+  uri: string;
+  // Image of the off-chain JSON document, when requested and available
+  image: string | null;
+  source: TokenMetadataSource;
+  // Account holding the metadata, null when none was found
+  metadataAddress: string | null;
+};
+
+export const TOKEN_METADATA_PROGRAM_ID = new PublicKey(
+  "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s"
+);
+
+// Type of the token metadata entry in the TLV data of an interface account
+const TOKEN_METADATA_DISCRIMINATOR = Buffer.from([
+  112, 132, 90, 90, 11, 88, 157, 87,
+]);
+
+const OFFCHAIN_TIMEOUT_MS = 5000;
+
+const cache: { [key: string]: Promise<TokenMetadataInfo> } = {};
+
+const EMPTY_METADATA: TokenMetadataInfo = {
+  name: "",
+  symbol: "",
+  uri: "",
+  image: null,
+  source: "none",
+  metadataAddress: null,
+};
+
+/*
+ * Derives the address of the Metaplex metadata account of the mint.
+ */
+export function getMetaplexMetadataAddress(mint: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [
+      Buffer.from("metadata"),
+      TOKEN_METADATA_PROGRAM_ID.toBuffer(),
+      mint.toBuffer(),
+    ],
+    TOKEN_METADATA_PROGRAM_ID
+  )[0];
+}
+
+/*
+ * Reads the borsh strings at the offset, returning them and the offset
+ * after them. Metaplex pads its strings with zero bytes, which are removed.
+ */
+function readStrings(
+  data: Buffer,
+  offset: number,
+  count: number
+): { values: string[]; offset: number } {
+  const values: string[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 4 > data.length) {
+      throw new Error("Metadata account is too short");
+    }
+    const length = data.readUInt32LE(offset);
+    if (offset + 4 + length > data.length) {
+      throw new Error("Metadata account is too short");
+    }
+    values.push(
+      data
+        .subarray(offset + 4, offset + 4 + length)
+        .toString("utf8")
+        .replace(/\0/g, "")
+        .trim()
+    );
+    offset += 4 + length;
+  }
+  return { values, offset };
+}
+
+/*
+ * Decodes the name, symbol and URI of a Metaplex metadata account: key (1),
+ * update authority (32) and mint (32), followed by the three strings.
+ */
+export function decodeMetaplexMetadata(data: Buffer): {
+  mint: string;
+  name: string;
+  symbol: string;
+  uri: string;
+} {
+  if (data.length < 65) {
+    throw new Error("Metadata account is too short");
+  }
+  const {
+    values: [name, symbol, uri],
+  } = readStrings(data, 65, 3);
+  return {
+    mint: new PublicKey(data.subarray(33, 65)).toBase58(),
+    name,
+    symbol,
+    uri,
+  };
+}
+
+/*
+ * Decodes the value of a token metadata interface entry: update authority
+ * (32) and mint (32), followed by the name, symbol and URI.
+ */
+export function decodeTokenMetadata(data: Buffer): {
+  mint: string;
+  name: string;
+  symbol: string;
+  uri: string;
+} {
+  if (data.length < 64) {
+    throw new Error("Token metadata is too short");
+  }
+  const {
+    values: [name, symbol, uri],
+  } = readStrings(data, 64, 3);
+  return {
+    mint: new PublicKey(data.subarray(32, 64)).toBase58(),
+    name,
+    symbol,
+    uri,
+  };
+}
+
+/*
+ * Finds the token metadata entry in the TLV data of an account of a
+ * program implementing the token metadata interface.
+ */
+function findTokenMetadataEntry(data: Buffer): Buffer | null {
+  let offset = 0;
+  while (offset + 12 <= data.length) {
+    const length = data.readUInt32LE(offset + 8);
+    if (
+      data.subarray(offset, offset + 8).equals(TOKEN_METADATA_DISCRIMINATOR)
+    ) {
+      return data.subarray(offset + 12, offset + 12 + length);
+    }
+    offset += 12 + length;
+  }
+  return null;
+}
+
+/*
+ * Decodes the metadata of the mint held by an external metadata account,
+ * checking that it describes the mint.
+ */
+function decodeExternalMetadata(
+  mint: PublicKey,
+  address: PublicKey,
+  account: AccountInfo<Buffer>
+): TokenMetadataInfo | null {
+  const isMetaplex = account.owner.equals(TOKEN_METADATA_PROGRAM_ID);
+  let metadata: ReturnType<typeof decodeTokenMetadata>;
+  if (isMetaplex) {
+    metadata = decodeMetaplexMetadata(account.data);
+  } else {
+    const entry = findTokenMetadataEntry(account.data);
+    if (!entry) {
+      return null;
+    }
+    metadata = decodeTokenMetadata(entry);
+  }
+
+  if (metadata.mint !== mint.toBase58()) {
+    console.warn(
+      `Metadata account ${address.toBase58()} describes another mint (${
+        metadata.mint
+      })`
+    );
+    return null;
+  }
+  return {
+    name: metadata.name,
+    symbol: metadata.symbol,
+    uri: metadata.uri,
+    image: null,
+    source: isMetaplex ? "metaplex" : "token-2022",
+    metadataAddress: address.toBase58(),
+  };
+}
+
+/*
+ * Fetches the image of the off-chain JSON document of the metadata. Only
+ * http(s) documents and images are used.
+ */
+export async function fetchOffchainImage(uri: string): Promise<string | null> {
+  const isHttp = (value: string) => /^https?:\/\//i.test(value);
+  if (!isHttp(uri)) {
+    return null;
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), OFFCHAIN_TIMEOUT_MS);
+  try {
+    const response = await fetch(uri, { signal: controller.signal });
+    if (!response.ok) {
+      return null;
+    }
+    const json = await response.json();
+    return typeof json?.image === "string" && isHttp(json.image)
+      ? json.image
+      : null;
+  } catch (e) {
+    console.warn(`Could not fetch the off-chain metadata at ${uri}:`, e);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/*
+ * Resolves the on-chain metadata of the mint: the Token-2022 metadata
+ * pointer first, then the Metaplex metadata account.
+ */
+async function resolveMetadata(
+  cluster: Cluster,
+  mint: PublicKey
+): Promise<TokenMetadataInfo> {
+  const connection = getConnection(cluster);
+  const mintAccount = await connection.getAccountInfo(mint);
+  if (!mintAccount) {
+    throw new Error(`Mint ${mint.toBase58()} does not exist`);
+  }
+
+  if (mintAccount.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+    const mintState = unpackMint(mint, mintAccount, TOKEN_2022_PROGRAM_ID);
+    const pointer = getMetadataPointerState(mintState)?.metadataAddress;
+
+    if (!pointer || pointer.equals(mint)) {
+      // Metadata stored in the mint itself
+      const entry = getExtensionData(
+        ExtensionType.TokenMetadata,
+        mintState.tlvData
+      );
+      if (entry) {
+        const metadata = decodeTokenMetadata(entry);
+        return {
+          name: metadata.name,
+          symbol: metadata.symbol,
+          uri: metadata.uri,
+          image: null,
+          source: "token-2022",
+          metadataAddress: mint.toBase58(),
+        };
+      }
+    } else {
+      const account = await connection.getAccountInfo(pointer);
+      const metadata = account
+        ? decodeExternalMetadata(mint, pointer, account)
+        : null;
+      if (metadata) {
+        return metadata;
+      }
+    }
+  }
+
+  const metaplexAddress = getMetaplexMetadataAddress(mint);
+  const metaplexAccount = await connection.getAccountInfo(metaplexAddress);
+  if (metaplexAccount?.owner.equals(TOKEN_METADATA_PROGRAM_ID)) {
+    const metadata = decodeMetaplexMetadata(metaplexAccount.data);
+    return {
+      name: metadata.name,
+      symbol: metadata.symbol,
+      uri: metadata.uri,
+      image: null,
+      source: "metaplex",
+      metadataAddress: metaplexAddress.toBase58(),
+    };
+  }
+
+  return EMPTY_METADATA;
+}
+
+/*
+ * Returns the metadata of the mint on the cluster, with the image of its
+ * off-chain document when includeImage is set. Failed lookups are not
+ * cached, so they are tried again on the next call.
+ */
+export async function getTokenMetadataInfo(
+  cluster: Cluster,
+  mintAddress: string,
+  includeImage = false
+): Promise<TokenMetadataInfo> {
+  const mint = new PublicKey(mintAddress);
+  const key = `${cluster.network}:${cluster.rpcUrl}:${mint.toBase58()}`;
+  const imageKey = `${key}:image`;
+
+  if (!cache[key]) {
+    cache[key] = resolveMetadata(cluster, mint);
+    cache[key].catch(() => delete cache[key]);
+  }
+  if (!includeImage) {
+    return cache[key];
+  }
+
+  if (!cache[imageKey]) {
+    cache[imageKey] = cache[key].then(async (metadata) => ({
+      ...metadata,
+      image: metadata.uri ? await fetchOffchainImage(metadata.uri) : null,
+    }));
+    cache[imageKey].catch(() => delete cache[imageKey]);
+  }
+  return cache[imageKey];
+}
@@ -0,0 +1,357 @@
+/*
+ * Helper functions for transferring tokens of both token programs.
+ *
+ * Token-2022 mints and accounts can carry extensions that change how a
+ * transfer is built, or rule it out. Transfer fees are asserted with
+ * TransferCheckedWithFee, transfer hooks need the extra accounts listed by
+ * their program, and accounts requiring memos only accept transfers preceded
+ * by a memo. Non-transferable and paused mints, frozen accounts and accounts
+ * that only accept confidential transfers cannot take a plain transfer at
+ * all; these are reported as TokenTransferError before anything is signed.
+ */
+
+import { PublicKey, TransactionInstruction } from "@solana/web3.js";
+import {
+  Account,
+  AccountState,
+  addExtraAccountMetasForExecute,
+  calculateEpochFee,
+  createAssociatedTokenAccountInstruction,
+  createTransferCheckedInstruction,
+  createTransferCheckedWithFeeInstruction,
+  ExtensionType,
+  getAssociatedTokenAddressSync,
+  getDefaultAccountState,
+  getExtensionData,
+  getMemoTransfer,
+  getNonTransferable,
+  getPausableConfig,
+  getTransferFeeConfig,
+  getTransferHook,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  unpackAccount,
+  unpackMint,
+} from "@solana/spl-token";
+import { formatAmount, parseAmount } from "../amounts";
+import { Cluster, CLUSTER_LABELS } from "../cluster";
+import { getConnection } from "../rpc";
+import { MEMO_PROGRAM_ID } from "../instructions";
+
+export type TokenTransferRestriction =
+  | "non-transferable"
+  | "paused"
+  | "source-frozen"
+  | "destination-frozen"
+  | "confidential-only"
+  | "insufficient-balance";
+
+export type TokenTransferPlan = {
+  programId: PublicKey;
+  mint: PublicKey;
+  decimals: number;
+  owner: PublicKey;
+  recipient: PublicKey;
+  // Token account of the owner and associated token account of the recipient
+  source: PublicKey;
+  destination: PublicKey;
+  // Whether the recipient's token account has to be created first
+  createDestination: boolean;
+  // Base units debited from the source
+  amount: bigint;
+  // Withheld from the amount by the transfer fee extension, null without it
+  fee: bigint | null;
+  // Program called on every transfer by the transfer hook extension
+  transferHookProgramId: PublicKey | null;
+  // Whether the destination only accepts transfers preceded by a memo
+  memoRequired: boolean;
+};
+
+// Memo sent to accounts requiring one when the user did not write any
+const DEFAULT_MEMO = "Token transfer";
+
+// Offset of allow_non_confidential_credits in the confidential transfer
+// account extension: approved (1), ElGamal key (32), pending balance low and
+// high (64 each), available balance (64), decryptable balance (36) and
+// allow_confidential_credits (1)
+const NON_CONFIDENTIAL_CREDITS_OFFSET = 262;
+
+/*
+ * A transfer the token program would refuse, with the reason explained.
+ */
+export class TokenTransferError extends Error {
+  restriction: TokenTransferRestriction;
+
+  constructor(restriction: TokenTransferRestriction, message: string) {
+    super(message);
+    this.name = "TokenTransferError";
+    this.restriction = restriction;
+    // Keep instanceof working on subclasses of Error when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/*
+ * Whether the account has the confidential transfer extension, and whether
+ * it still accepts plain (non-confidential) transfers.
+ */
+function getConfidentialState(account: Account): {
+  isConfidential: boolean;
+  allowsPlainCredits: boolean;
+} {
+  const data = getExtensionData(
+    ExtensionType.ConfidentialTransferAccount,
+    account.tlvData
+  );
+  if (!data) {
+    return { isConfidential: false, allowsPlainCredits: true };
+  }
+  return {
+    isConfidential: true,
+    allowsPlainCredits:
+      data.length <= NON_CONFIDENTIAL_CREDITS_OFFSET ||
+      data[NON_CONFIDENTIAL_CREDITS_OFFSET] !== 0,
+  };
+}
+
+/*
+ * Inspects a transfer of the mint from the owner's token account, by default
+ * the associated one, to the recipient's associated token account, throwing
+ * TokenTransferError when the token program would refuse it. The amount is
+ * either a decimal string of the token, converted exactly to base units, or
+ * a number of base units.
+ */
+export async function getTokenTransferPlan(
+  cluster: Cluster,
+  mintAddress: string,
+  ownerAddress: string,
+  recipientAddress: string,
+  amount: string | bigint,
+  sourceAddress?: string
+): Promise<TokenTransferPlan> {
+  const connection = getConnection(cluster);
+  const mint = new PublicKey(mintAddress);
+  const owner = new PublicKey(ownerAddress);
+  const recipient = new PublicKey(recipientAddress);
+  const clusterLabel = CLUSTER_LABELS[cluster.name];
+
+  const mintInfo = await connection.getAccountInfo(mint);
+  if (!mintInfo) {
+    throw new Error(
+      `No SPL token found with address (${mintAddress}) on Solana ${clusterLabel}. Check the SPL address is correct and that the SPL token exists before trying to send.`
+    );
+  }
+  const programId = mintInfo.owner;
+  if (
+    !programId.equals(TOKEN_PROGRAM_ID) &&
+    !programId.equals(TOKEN_2022_PROGRAM_ID)
+  ) {
+    throw new Error(`${mintAddress} is not an SPL token mint`);
+  }
+  const mintState = unpackMint(mint, mintInfo, programId);
+  const decimals = mintState.decimals;
+
+  // Exact base units, rejecting more precision than the mint supports
+  const baseUnits =
+    typeof amount === "string" ? parseAmount(amount, decimals) : amount;
+  if (baseUnits <= BigInt(0)) {
+    throw new Error("Amount must be greater than zero");
+  }
+
+  if (getNonTransferable(mintState)) {
+    throw new TokenTransferError(
+      "non-transferable",
+      "This token is non-transferable: it stays in the account it was minted to and can only be burned."
+    );
+  }
+  if (getPausableConfig(mintState)?.paused) {
+    throw new TokenTransferError(
+      "paused",
+      "Transfers of this token are paused by its pause authority. Try again once they are resumed."
+    );
+  }
+
+  const source = sourceAddress
+    ? new PublicKey(sourceAddress)
+    : getAssociatedTokenAddressSync(mint, owner, false, programId);
+  const sourceInfo = await connection.getAccountInfo(source);
+  if (!sourceInfo) {
+    throw new Error(
+      `Sender ${ownerAddress} does not have a token account for SPL token with address (${mintAddress}) on Solana ${clusterLabel}. Check the SPL address is correct, that the selected cluster is correct, and that the sender has the specified SPL token before trying to send.`
+    );
+  }
+  const sourceAccount = unpackAccount(source, sourceInfo, programId);
+  if (!sourceAccount.owner.equals(owner) || !sourceAccount.mint.equals(mint)) {
+    throw new Error(
+      `Token account ${source.toBase58()} does not hold ${mintAddress} for ${ownerAddress}`
+    );
+  }
+  if (sourceAccount.isFrozen) {
+    throw new TokenTransferError(
+      "source-frozen",
+      "Your token account is frozen by the token's freeze authority, so nothing can be sent from it until it is thawed."
+    );
+  }
+  if (sourceAccount.amount < baseUnits) {
+    const balance = formatAmount(sourceAccount.amount, decimals);
+    throw getConfidentialState(sourceAccount).isConfidential
+      ? new TokenTransferError(
+          "confidential-only",
+          `Only ${balance} of this token is in your public balance. Tokens in the confidential balance can only be sent with a confidential transfer, which this wallet does not support.`
+        )
+      : new TokenTransferError(
+          "insufficient-balance",
+          `Insufficient balance: only ${balance} of this token is available.`
+        );
+  }
+
+  const destination = getAssociatedTokenAddressSync(
+    mint,
+    recipient,
+    false,
+    programId
+  );
+  const destinationInfo = await connection.getAccountInfo(destination);
+  let memoRequired = false;
+  if (destinationInfo) {
+    const destinationAccount = unpackAccount(
+      destination,
+      destinationInfo,
+      programId
+    );
+    if (destinationAccount.isFrozen) {
+      throw new TokenTransferError(
+        "destination-frozen",
+        "The recipient's token account is frozen by the token's freeze authority and cannot receive tokens until it is thawed."
+      );
+    }
+    if (!getConfidentialState(destinationAccount).allowsPlainCredits) {
+      throw new TokenTransferError(
+        "confidential-only",
+        "The recipient's token account only accepts confidential transfers, which this wallet does not support."
+      );
+    }
+    memoRequired =
+      !!getMemoTransfer(destinationAccount)?.requireIncomingTransferMemos;
+  } else if (getDefaultAccountState(mintState)?.state === AccountState.Frozen) {
+    throw new TokenTransferError(
+      "destination-frozen",
+      "The recipient has no account for this token, and new accounts of this token start frozen. The token's freeze authority has to create and thaw the recipient's account first."
+    );
+  }
+
+  let fee: bigint | null = null;
+  const transferFeeConfig = getTransferFeeConfig(mintState);
+  if (transferFeeConfig) {
+    const { epoch } = await connection.getEpochInfo();
+    fee = calculateEpochFee(transferFeeConfig, BigInt(epoch), baseUnits);
+  }
+
+  const hookProgramId = getTransferHook(mintState)?.programId;
+
+  return {
+    programId,
+    mint,
+    decimals,
+    owner,
+    recipient,
+    source,
+    destination,
+    createDestination: !destinationInfo,
+    amount: baseUnits,
+    fee,
+    transferHookProgramId:
+      hookProgramId && !hookProgramId.equals(PublicKey.default)
+        ? hookProgramId
+        : null,
+    memoRequired,
+  };
+}
+
+/*
+ * Builds the instructions of the planned transfer: creating the recipient's
+ * token account when needed, the memo, written by the user or required by
+ * the recipient, and the transfer with its fee and hook accounts.
+ */
+export async function getTokenTransferInstructions(
+  cluster: Cluster,
+  plan: TokenTransferPlan,
+  payer: PublicKey,
+  memo?: string
+): Promise<TransactionInstruction[]> {
+  const instructions: TransactionInstruction[] = [];
+
+  if (plan.createDestination) {
+    instructions.push(
+      createAssociatedTokenAccountInstruction(
+        payer,
+        plan.destination,
+        plan.recipient,
+        plan.mint,
+        plan.programId
+      )
+    );
+  }
+
+  // Required memos must come right before the transfer
+  const memoText = memo || (plan.memoRequired ? DEFAULT_MEMO : "");
+  if (memoText) {
+    instructions.push(
+      new TransactionInstruction({
+        programId: MEMO_PROGRAM_ID,
+        keys: [{ pubkey: plan.owner, isSigner: true, isWritable: false }],
+        data: Buffer.from(memoText, "utf8"),
+      })
+    );
+  }
+
+  const transfer =
+    plan.fee === null
+      ? createTransferCheckedInstruction(
+          plan.source,
+          plan.mint,
+          plan.destination,
+          plan.owner,
+          plan.amount,
+          plan.decimals,
+          [],
+          plan.programId
+        )
+      : createTransferCheckedWithFeeInstruction(
+          plan.source,
+          plan.mint,
+          plan.destination,
+          plan.owner,
+          plan.amount,
+          plan.decimals,
+          plan.fee,
+          [],
+          plan.programId
+        );
+
+  if (plan.transferHookProgramId) {
+    const hookProgramId = plan.transferHookProgramId;
+    await addExtraAccountMetasForExecute(
+      getConnection(cluster),
+      transfer,
+      hookProgramId,
+      plan.source,
+      plan.mint,
+      plan.destination,
+      plan.owner,
+      plan.amount,
+      "confirmed"
+    );
+    // The hook program is called even when it lists no extra accounts
+    if (!transfer.keys.some((key) => key.pubkey.equals(hookProgramId))) {
+      transfer.keys.push({
+        pubkey: hookProgramId,
+        isSigner: false,
+        isWritable: false,
+      });
+    }
+  }
+
+  instructions.push(transfer);
+  return instructions;
+}
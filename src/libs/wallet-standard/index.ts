@@ -0,0 +1,627 @@
+/*
+ * Wallet Standard adapter, so dapps can use the wallet's scalar keys.
+ *
+ * The wallet is registered with the Wallet Standard events on the page, for
+ * dapps running in the same page, and can be served over postMessage to a
+ * dapp embedded in an iframe, which registers a proxy wallet with
+ * registerFrameWallet. Every request is passed to the approval callback of
+ * the app before the key is used.
+ *
+ * The Wallet Standard types are declared here rather than imported, the
+ * protocol only relies on their shape and on the registration events.
+ */
+
+import {
+  PublicKey,
+  Transaction,
+  VersionedMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { signAsync } from "../ed25119-scalar";
+import { sendSignedTransaction, signTransaction } from "../solana";
+import { Cluster, getChainId, SolanaChain } from "../cluster";
+import { transactionFromBytes, transactionToBytes } from "../offline";
+import {
+  createSignInMessage,
+  SignInInput,
+  SignInOutput,
+  signIn,
+  validateSignInInput,
+} from "../siws";
+
+export type WalletAccount = {
+  address: string;
+  publicKey: Uint8Array;
+  chains: SolanaChain[];
+  features: string[];
+  label?: string;
+};
+
+// Request shown to the user for approval
+export type WalletRequest = { origin: string } & (
+  | { type: "connect" }
+  | {
+      type: "signTransaction" | "signAndSendTransaction";
+      transaction: Transaction | VersionedTransaction;
+    }
+  | { type: "signMessage"; message: Uint8Array }
+  | { type: "signIn"; message: string }
+);
+
+export type WalletBackend = {
+  // Active unlocked account, null while the wallet is locked
+  getAccount: () => { address: string; secretKey: Uint8Array } | null;
+  // Cluster of the wallet, transactions are sent to it
+  getCluster: () => Cluster;
+  // Resolves to true when the user approves the request
+  requestApproval: (request: WalletRequest) => Promise<boolean>;
+};
+
+type ChangeListener = (properties: { accounts?: WalletAccount[] }) => void;
+
+// The Wallet Standard and Solana wallet features the wallet implements
+type TransactionVersion = "legacy" | 0;
+
+type SolanaSignTransactionInput = {
+  account: WalletAccount;
+  transaction: Uint8Array;
+  chain?: string;
+};
+
+type SolanaSignAndSendTransactionInput = SolanaSignTransactionInput & {
+  chain: string;
+};
+
+type SolanaSignMessageInput = { account: WalletAccount; message: Uint8Array };
+
+export type StandardWalletFeatures = {
+  "standard:connect": {
+    version: "1.0.0";
+    connect: (input?: {
+      silent?: boolean;
+    }) => Promise<{ accounts: WalletAccount[] }>;
+  };
+  "standard:disconnect": {
+    version: "1.0.0";
+    disconnect: () => Promise<void>;
+  };
+  "standard:events": {
+    version: "1.0.0";
+    on: (event: "change", listener: ChangeListener) => () => void;
+  };
+  "solana:signTransaction": {
+    version: "1.0.0";
+    supportedTransactionVersions: TransactionVersion[];
+    signTransaction: (
+      ...inputs: SolanaSignTransactionInput[]
+    ) => Promise<{ signedTransaction: Uint8Array }[]>;
+  };
+  "solana:signAndSendTransaction": {
+    version: "1.0.0";
+    supportedTransactionVersions: TransactionVersion[];
+    signAndSendTransaction: (
+      ...inputs: SolanaSignAndSendTransactionInput[]
+    ) => Promise<{ signature: Uint8Array }[]>;
+  };
+  "solana:signMessage": {
+    version: "1.0.0";
+    signMessage: (...inputs: SolanaSignMessageInput[]) => Promise<
+      {
+        signedMessage: Uint8Array;
+        signature: Uint8Array;
+        signatureType: "ed25519";
+      }[]
+    >;
+  };
+  "solana:signIn": {
+    version: "1.0.0";
+    signIn: (
+      ...inputs: SignInInput[]
+    ) => Promise<(SignInOutput & { account: WalletAccount })[]>;
+  };
+};
+
+export type StandardWallet = {
+  version: "1.0.0";
+  name: string;
+  icon: string;
+  chains: SolanaChain[];
+  accounts: WalletAccount[];
+  features: StandardWalletFeatures;
+};
+
+export const WALLET_NAME = "Ed25519 Scalar Wallet";
+
+const CHAINS: SolanaChain[] = [
+  "solana:mainnet",
+  "solana:devnet",
+  "solana:testnet",
+  "solana:localnet",
+];
+
+const SUPPORTED_TRANSACTION_VERSIONS: TransactionVersion[] = ["legacy", 0];
+
+const ACCOUNT_FEATURES = [
+  "solana:signTransaction",
+  "solana:signAndSendTransaction",
+  "solana:signMessage",
+  "solana:signIn",
+];
+
+const WALLET_ICON = `data:image/svg+xml;base64,${btoa(
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32"><rect width="32" height="32" rx="6" fill="#1976d2"/><text x="16" y="22" font-family="monospace" font-size="16" fill="#fff" text-anchor="middle">Ed</text></svg>'
+)}`;
+
+/*
+ * Checks whether the bytes are a transaction message, which must never be
+ * signed as a plain message.
+ */
+function isTransactionMessage(bytes: Uint8Array): boolean {
+  try {
+    return (
+      VersionedMessage.deserialize(bytes).serialize().length === bytes.length
+    );
+  } catch (e) {
+    return false;
+  }
+}
+
+/*
+ * The standard:events feature, notifying the dapp of account changes.
+ */
+const createEventsFeature = (
+  listeners: ChangeListener[]
+): StandardWalletFeatures["standard:events"] => ({
+  version: "1.0.0",
+  on: (event, listener) => {
+    if (event !== "change") {
+      return () => {};
+    }
+    listeners.push(listener);
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index >= 0) {
+        listeners.splice(index, 1);
+      }
+    };
+  },
+});
+
+/*
+ * Creates a Wallet Standard wallet backed by the app's active account,
+ * serving the dapps of the given origin (host). Call notifyChange when the
+ * active account or network changes.
+ */
+export function createScalarWallet(
+  backend: WalletBackend,
+  origin: string
+): { wallet: StandardWallet; notifyChange: () => void } {
+  const listeners: ChangeListener[] = [];
+  let isConnected = false;
+
+  const getAccounts = (): WalletAccount[] => {
+    const account = backend.getAccount();
+    return isConnected && account
+      ? [
+          {
+            address: account.address,
+            publicKey: new PublicKey(account.address).toBytes(),
+            chains: [getChainId(backend.getCluster())],
+            features: ACCOUNT_FEATURES,
+          },
+        ]
+      : [];
+  };
+
+  /*
+   * Asks for approval, then returns the key of the account the dapp asked
+   * for, checking it is still the active one.
+   */
+  const approve = async (request: WalletRequest, address?: string) => {
+    // Connecting and signing in are how a dapp gets connected
+    const connects = request.type === "connect" || request.type === "signIn";
+    if (!connects && !isConnected) {
+      throw new Error("The dapp is not connected");
+    }
+    if (!backend.getAccount()) {
+      throw new Error("The wallet is locked");
+    }
+    if (!(await backend.requestApproval(request))) {
+      throw new Error("The user rejected the request");
+    }
+
+    const account = backend.getAccount();
+    if (!account) {
+      throw new Error("The wallet is locked");
+    }
+    if (address && address !== account.address) {
+      throw new Error(`${address} is not the active account of the wallet`);
+    }
+    return account;
+  };
+
+  const checkChain = (chain?: string) => {
+    const walletChain = getChainId(backend.getCluster());
+    if (chain && chain !== walletChain) {
+      throw new Error(`The wallet is on ${walletChain}, not ${chain}`);
+    }
+  };
+
+  /*
+   * Requests are handled one after the other, each with its own approval.
+   */
+  const signTransactions = async (
+    inputs: SolanaSignTransactionInput[],
+    send: boolean
+  ) => {
+    const outputs: { signature: Uint8Array; signedTransaction: Uint8Array }[] =
+      [];
+    for (const input of inputs) {
+      checkChain(input.chain);
+      const transaction = transactionFromBytes(input.transaction);
+      const account = await approve(
+        {
+          origin,
+          type: send ? "signAndSendTransaction" : "signTransaction",
+          transaction,
+        },
+        input.account.address
+      );
+      const { signature } = await signTransaction(
+        account.secretKey,
+        account.address,
+        transaction
+      );
+      if (send) {
+        await sendSignedTransaction(transaction, backend.getCluster());
+      }
+      outputs.push({
+        signature,
+        signedTransaction: transactionToBytes(transaction),
+      });
+    }
+    return outputs;
+  };
+
+  const wallet: StandardWallet = {
+    version: "1.0.0",
+    name: WALLET_NAME,
+    icon: WALLET_ICON,
+    chains: CHAINS,
+    get accounts() {
+      return getAccounts();
+    },
+    features: {
+      "standard:connect": {
+        version: "1.0.0",
+        connect: async (input) => {
+          if (!isConnected && !input?.silent) {
+            await approve({ origin, type: "connect" });
+            isConnected = true;
+            notifyChange();
+          }
+          return { accounts: getAccounts() };
+        },
+      },
+      "standard:disconnect": {
+        version: "1.0.0",
+        disconnect: async () => {
+          isConnected = false;
+          notifyChange();
+        },
+      },
+      "standard:events": createEventsFeature(listeners),
+      "solana:signTransaction": {
+        version: "1.0.0",
+        supportedTransactionVersions: SUPPORTED_TRANSACTION_VERSIONS,
+        signTransaction: async (...inputs) =>
+          (await signTransactions(inputs, false)).map(
+            ({ signedTransaction }) => ({ signedTransaction })
+          ),
+      },
+      "solana:signAndSendTransaction": {
+        version: "1.0.0",
+        supportedTransactionVersions: SUPPORTED_TRANSACTION_VERSIONS,
+        signAndSendTransaction: async (...inputs) =>
+          (await signTransactions(inputs, true)).map(({ signature }) => ({
+            signature,
+          })),
+      },
+      "solana:signMessage": {
+        version: "1.0.0",
+        signMessage: async (...inputs) => {
+          const outputs = [];
+          for (const input of inputs) {
+            if (isTransactionMessage(input.message)) {
+              throw new Error("Refusing to sign a transaction as a message");
+            }
+            const account = await approve(
+              { origin, type: "signMessage", message: input.message },
+              input.account.address
+            );
+            outputs.push({
+              signedMessage: input.message,
+              signature: await signAsync(input.message, account.secretKey),
+              signatureType: "ed25519" as const,
+            });
+          }
+          return outputs;
+        },
+      },
+      "solana:signIn": {
+        version: "1.0.0",
+        signIn: async (...inputs) => {
+          const outputs = [];
+          for (const input of inputs) {
+            const active = backend.getAccount();
+            if (!active) {
+              throw new Error("The wallet is locked");
+            }
+
+            // The domain is checked against the origin of the dapp
+            const options = {
+              domain: origin,
+              chainId: getChainId(backend.getCluster()),
+            };
+            const message = createSignInMessage(
+              validateSignInInput(input, active.address, options)
+            );
+
+            const account = await approve(
+              { origin, type: "signIn", message },
+              active.address
+            );
+            isConnected = true;
+            notifyChange();
+
+            const output = await signIn(
+              account.secretKey,
+              account.address,
+              input,
+              options
+            );
+            outputs.push({ ...output, account: getAccounts()[0] });
+          }
+          return outputs;
+        },
+      },
+    },
+  };
+
+  function notifyChange() {
+    const accounts = getAccounts();
+    listeners.forEach((listener) => listener({ accounts }));
+  }
+
+  return { wallet, notifyChange };
+}
+
+/*
+ * Registers the wallet with the dapps of the page, whether they load before
+ * or after it. Returns a function that unregisters it.
+ */
+export function registerWallet(wallet: StandardWallet): () => void {
+  type RegisterApi = { register: (wallet: StandardWallet) => () => void };
+  const unregisters: (() => void)[] = [];
+  const callback = ({ register }: RegisterApi) => {
+    unregisters.push(register(wallet));
+  };
+  const onAppReady = (event: Event) =>
+    callback((event as CustomEvent<RegisterApi>).detail);
+
+  window.dispatchEvent(
+    new CustomEvent("wallet-standard:register-wallet", { detail: callback })
+  );
+  window.addEventListener("wallet-standard:app-ready", onAppReady);
+
+  return () => {
+    window.removeEventListener("wallet-standard:app-ready", onAppReady);
+    unregisters.forEach((unregister) => unregister());
+  };
+}
+
+const FRAME_REQUEST = "scalar-wallet:request";
+const FRAME_RESPONSE = "scalar-wallet:response";
+const FRAME_CHANGE = "scalar-wallet:change";
+
+/*
+ * Calls the feature method a framed dapp asked for, named
+ * "feature.method". The arguments come from the dapp as they are; the
+ * methods check them before signing anything.
+ */
+function callFeature(
+  features: StandardWalletFeatures,
+  name: string,
+  args: unknown[]
+): Promise<unknown> {
+  switch (name) {
+    case "standard:connect.connect":
+      return features["standard:connect"].connect(
+        ...(args as [{ silent?: boolean }?])
+      );
+    case "standard:disconnect.disconnect":
+      return features["standard:disconnect"].disconnect();
+    case "solana:signTransaction.signTransaction":
+      return features["solana:signTransaction"].signTransaction(
+        ...(args as SolanaSignTransactionInput[])
+      );
+    case "solana:signAndSendTransaction.signAndSendTransaction":
+      return features["solana:signAndSendTransaction"].signAndSendTransaction(
+        ...(args as SolanaSignAndSendTransactionInput[])
+      );
+    case "solana:signMessage.signMessage":
+      return features["solana:signMessage"].signMessage(
+        ...(args as SolanaSignMessageInput[])
+      );
+    case "solana:signIn.signIn":
+      return features["solana:signIn"].signIn(...(args as SignInInput[]));
+    default:
+      throw new Error(`Unsupported method ${name}`);
+  }
+}
+
+/*
+ * Serves the wallet to a dapp embedded in an iframe, answering the requests
+ * its proxy wallet posts. Returns a function that stops serving.
+ */
+export function serveFrameWallet(
+  wallet: StandardWallet,
+  frame: Window,
+  frameOrigin: string
+): () => void {
+  const onMessage = async (event: MessageEvent) => {
+    const { data } = event;
+    if (
+      event.source !== frame ||
+      event.origin !== frameOrigin ||
+      !data ||
+      data.type !== FRAME_REQUEST
+    ) {
+      return;
+    }
+
+    try {
+      const result = await callFeature(
+        wallet.features,
+        `${data.feature}.${data.method}`,
+        Array.isArray(data.args) ? data.args : []
+      );
+      frame.postMessage(
+        { type: FRAME_RESPONSE, id: data.id, result },
+        frameOrigin
+      );
+    } catch (e: any) {
+      frame.postMessage(
+        { type: FRAME_RESPONSE, id: data.id, error: e.message },
+        frameOrigin
+      );
+    }
+  };
+
+  window.addEventListener("message", onMessage);
+  const unsubscribe = wallet.features["standard:events"].on(
+    "change",
+    ({ accounts }) =>
+      frame.postMessage({ type: FRAME_CHANGE, accounts }, frameOrigin)
+  );
+
+  return () => {
+    window.removeEventListener("message", onMessage);
+    unsubscribe();
+  };
+}
+
+/*
+ * Registers a proxy of the wallet in a dapp embedded in an iframe of the
+ * wallet, forwarding every request to the parent page of the given origin.
+ */
+export function registerFrameWallet(walletOrigin: string) {
+  let accounts: WalletAccount[] = [];
+  const listeners: ChangeListener[] = [];
+  const pending: {
+    [id: string]: {
+      resolve: (result: unknown) => void;
+      reject: (e: Error) => void;
+    };
+  } = {};
+  let nextId = 0;
+
+  const setAccounts = (value: WalletAccount[] = []) => {
+    accounts = value;
+    listeners.forEach((listener) => listener({ accounts }));
+  };
+
+  window.addEventListener("message", (event: MessageEvent) => {
+    const { data } = event;
+    if (
+      event.source !== window.parent ||
+      event.origin !== walletOrigin ||
+      !data
+    ) {
+      return;
+    }
+    if (data.type === FRAME_CHANGE) {
+      setAccounts(data.accounts);
+    } else if (data.type === FRAME_RESPONSE && pending[data.id]) {
+      const { resolve, reject } = pending[data.id];
+      delete pending[data.id];
+      if (data.error) {
+        reject(new Error(data.error));
+      } else {
+        resolve(data.result);
+      }
+    }
+  });
+
+  // The wallet answers with the output of the feature method
+  const request =
+    <Args extends unknown[], Result>(feature: string, method: string) =>
+    (...args: Args) =>
+      new Promise<Result>((resolve, reject) => {
+        const id = `${nextId++}`;
+        pending[id] = {
+          resolve: (result) => resolve(result as Result),
+          reject,
+        };
+        window.parent.postMessage(
+          { type: FRAME_REQUEST, id, feature, method, args },
+          walletOrigin
+        );
+      });
+
+  const connect: StandardWalletFeatures["standard:connect"]["connect"] =
+    request("standard:connect", "connect");
+  const disconnect: StandardWalletFeatures["standard:disconnect"]["disconnect"] =
+    request("standard:disconnect", "disconnect");
+
+  const wallet: StandardWallet = {
+    version: "1.0.0",
+    name: WALLET_NAME,
+    icon: WALLET_ICON,
+    chains: CHAINS,
+    get accounts() {
+      return accounts;
+    },
+    features: {
+      "standard:connect": {
+        version: "1.0.0",
+        connect: async (input) => {
+          const result = await connect(input);
+          setAccounts(result.accounts);
+          return result;
+        },
+      },
+      "standard:disconnect": {
+        version: "1.0.0",
+        disconnect: async () => {
+          await disconnect();
+          setAccounts([]);
+        },
+      },
+      "standard:events": createEventsFeature(listeners),
+      "solana:signTransaction": {
+        version: "1.0.0",
+        supportedTransactionVersions: SUPPORTED_TRANSACTION_VERSIONS,
+        signTransaction: request("solana:signTransaction", "signTransaction"),
+      },
+      "solana:signAndSendTransaction": {
+        version: "1.0.0",
+        supportedTransactionVersions: SUPPORTED_TRANSACTION_VERSIONS,
+        signAndSendTransaction: request(
+          "solana:signAndSendTransaction",
+          "signAndSendTransaction"
+        ),
+      },
+      "solana:signMessage": {
+        version: "1.0.0",
+        signMessage: request("solana:signMessage", "signMessage"),
+      },
+      "solana:signIn": {
+        version: "1.0.0",
+        signIn: request("solana:signIn", "signIn"),
+      },
+    },
+  };
+
+  registerWallet(wallet);
+}